@@ -0,0 +1,12 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { buildManifestDevices } from '@synapse/hardware-events';
+
+describe('manifest.json', () => {
+  it('matches the device registry (run pnpm manifest to regenerate)', () => {
+    const manifest = JSON.parse(
+      readFileSync(join(__dirname, '..', 'manifest.json'), 'utf8'),
+    ) as { devices: unknown };
+    expect(manifest.devices).toEqual(buildManifestDevices());
+  });
+});
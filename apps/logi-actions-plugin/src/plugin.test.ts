@@ -1,5 +1,5 @@
 import { LogiActionsPlugin, type WebSocketLike } from './plugin';
-import type { LogiHardwareEvent } from '@synapse/hardware-events';
+import { PROTOCOL_VERSION, type LogiHardwareEvent } from '@synapse/hardware-events';
 
 // ─── Mock WebSocket ───────────────────────────────────────────────────────────
 
@@ -8,6 +8,7 @@ function makeMockWs(): WebSocketLike & {
   simulateOpen(): void;
   simulateMessage(data: string): void;
   simulateClose(): void;
+  simulateWelcome(): void;
 } {
   const ws = {
     sentMessages: [] as string[],
@@ -33,6 +34,25 @@ function makeMockWs(): WebSocketLike & {
       ws.readyState = 3;
       ws.onclose?.(null);
     },
+    simulateWelcome() {
+      ws.simulateMessage(
+        JSON.stringify({
+          type: 'WELCOME',
+          protocolVersion: PROTOCOL_VERSION,
+          role: 'plugin',
+          features: [
+            'HARDWARE_EVENTS',
+            'STATE_UPDATES',
+            'APP_CONTEXT',
+            'CLOCK_SYNC',
+            'HEARTBEAT',
+            'STATE_DELTAS',
+          ],
+          sessionId: 'session-1',
+          timestamp: Date.now(),
+        }),
+      );
+    },
   };
   return ws;
 }
@@ -57,6 +77,54 @@ describe('LogiActionsPlugin', () => {
     plugin.destroy();
   });
 
+  it('sends HELLO with its role, token and protocol version on open', () => {
+    process.env['SYNAPSE_WS_TOKEN'] = 'dev-secret';
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+
+    expect(capturedWs!.sentMessages).toHaveLength(1);
+    expect(JSON.parse(capturedWs!.sentMessages[0]!)).toMatchObject({
+      type: 'HELLO',
+      protocolVersion: PROTOCOL_VERSION,
+      role: 'plugin',
+      token: 'dev-secret',
+      features: [
+        'HARDWARE_EVENTS',
+        'STATE_UPDATES',
+        'APP_CONTEXT',
+        'CLOCK_SYNC',
+        'HEARTBEAT',
+        'STATE_DELTAS',
+      ],
+      topics: ['STATE'],
+    });
+    delete process.env['SYNAPSE_WS_TOKEN'];
+    plugin.destroy();
+  });
+
+  it('records the negotiated protocol from WELCOME', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    expect(plugin.getState().protocolVersion).toBeNull();
+
+    capturedWs!.simulateWelcome();
+    expect(plugin.getState().protocolVersion).toBe(PROTOCOL_VERSION);
+    expect(plugin.getState().features).toContain('HARDWARE_EVENTS');
+    plugin.destroy();
+  });
+
   it('sends a validated hardware event when connected', () => {
     let capturedWs: ReturnType<typeof makeMockWs> | null = null;
     const plugin = new LogiActionsPlugin(() => {
@@ -66,6 +134,7 @@ describe('LogiActionsPlugin', () => {
 
     plugin.connect();
     capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
 
     const event: LogiHardwareEvent = {
       timestamp: Date.now(),
@@ -75,12 +144,141 @@ describe('LogiActionsPlugin', () => {
     };
     plugin.sendHardwareEvent(event);
 
-    expect(capturedWs!.sentMessages).toHaveLength(1);
-    expect(JSON.parse(capturedWs!.sentMessages[0]!)).toMatchObject({
+    expect(capturedWs!.sentMessages).toHaveLength(2);
+    expect(JSON.parse(capturedWs!.sentMessages[1]!)).toMatchObject({
+      type: 'HARDWARE_EVENT',
+      event: {
+        deviceId: 'MX_MASTER_4',
+        componentId: 'ACTIONS_RING',
+        eventType: 'PRESS',
+      },
+    });
+    plugin.destroy();
+  });
+
+  it('does not send events before the daemon sends WELCOME', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+
+    plugin.sendHardwareEvent({
+      timestamp: Date.now(),
       deviceId: 'MX_MASTER_4',
       componentId: 'ACTIONS_RING',
       eventType: 'PRESS',
     });
+    expect(capturedWs!.sentMessages.map((m) => JSON.parse(m).type)).toEqual(['HELLO']);
+    plugin.destroy();
+  });
+
+  it('reports foreground application changes once', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
+
+    plugin.setAppContext('code');
+    plugin.setAppContext('code');
+    plugin.setAppContext(null);
+
+    const appMessages = capturedWs!.sentMessages
+      .map((m) => JSON.parse(m))
+      .filter((m) => m.type === 'APP_CONTEXT');
+    expect(appMessages).toEqual([
+      { type: 'APP_CONTEXT', appId: 'code' },
+      { type: 'APP_CONTEXT', appId: null },
+    ]);
+    plugin.destroy();
+  });
+
+  it('re-sends the foreground application after reconnecting', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.setAppContext('chrome');
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    expect(capturedWs!.sentMessages.map((m) => JSON.parse(m).type)).toEqual(['HELLO']);
+
+    capturedWs!.simulateWelcome();
+    expect(JSON.parse(capturedWs!.sentMessages[1]!)).toEqual({
+      type: 'APP_CONTEXT',
+      appId: 'chrome',
+    });
+    plugin.destroy();
+  });
+
+  it('answers clock sync PINGs with its own clock', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
+
+    const before = Date.now();
+    capturedWs!.simulateMessage(JSON.stringify({ type: 'PING', id: 7, daemonTime: 1_234.5 }));
+    const pong = JSON.parse(capturedWs!.sentMessages[capturedWs!.sentMessages.length - 1]!);
+
+    expect(pong).toMatchObject({ type: 'PONG', id: 7, daemonTime: 1_234.5 });
+    expect(pong.clientTime).toBeGreaterThanOrEqual(before);
+    plugin.destroy();
+  });
+
+  it('records protocol errors from the daemon', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    capturedWs!.simulateMessage(
+      JSON.stringify({
+        type: 'ERROR',
+        code: 'UNSUPPORTED_PROTOCOL_VERSION',
+        message: 'daemon supports 2–2',
+      }),
+    );
+
+    expect(plugin.getState().lastError?.code).toBe('UNSUPPORTED_PROTOCOL_VERSION');
+    plugin.destroy();
+  });
+
+  it('records a daemon shutdown until the next WELCOME', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
+    capturedWs!.simulateMessage(
+      JSON.stringify({ type: 'DAEMON_SHUTDOWN', reason: 'SIGTERM', timestamp: Date.now() }),
+    );
+    expect(plugin.getState().daemonShutdown).toBe('SIGTERM');
+
+    capturedWs!.simulateWelcome();
+    expect(plugin.getState().daemonShutdown).toBeNull();
     plugin.destroy();
   });
 
@@ -124,6 +322,10 @@ describe('LogiActionsPlugin', () => {
           computeMixWeight: 0.7,
           voicePipelineStatus: 'LISTENING',
         },
+        kernelConfig: null,
+        osControlState: null,
+        seq: 1,
+        timestamp: Date.now(),
       }),
     );
 
@@ -131,6 +333,55 @@ describe('LogiActionsPlugin', () => {
     plugin.destroy();
   });
 
+  it('applies STATE_DELTA patches in order and resyncs once on a gap', () => {
+    let capturedWs: ReturnType<typeof makeMockWs> | null = null;
+    const plugin = new LogiActionsPlugin(() => {
+      capturedWs = makeMockWs();
+      return capturedWs;
+    });
+    const snapshot = (seq: number, isClutchEngaged: boolean): string =>
+      JSON.stringify({
+        type: 'STATE_UPDATE',
+        state: {
+          isClutchEngaged,
+          activeAgentContext: 'CODER',
+          computeMixWeight: 0.7,
+          voicePipelineStatus: 'IDLE',
+        },
+        kernelConfig: null,
+        osControlState: null,
+        seq,
+        timestamp: Date.now(),
+      });
+    const delta = (seq: number, state: Record<string, unknown>): string =>
+      JSON.stringify({ type: 'STATE_DELTA', seq, patch: { state }, timestamp: Date.now() });
+
+    plugin.connect();
+    capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
+    capturedWs!.simulateMessage(snapshot(4, false));
+    capturedWs!.simulateMessage(delta(5, { isClutchEngaged: true }));
+    expect(plugin.getState().lastState).toMatchObject({
+      isClutchEngaged: true,
+      activeAgentContext: 'CODER',
+    });
+
+    // seq 6 never arrived
+    capturedWs!.simulateMessage(delta(7, { computeMixWeight: 0.2 }));
+    capturedWs!.simulateMessage(delta(8, { computeMixWeight: 0.3 }));
+    expect(plugin.getState().lastState?.computeMixWeight).toBe(0.7);
+    const sent = capturedWs!.sentMessages.map((m) => JSON.parse(m).type);
+    expect(sent.filter((type) => type === 'RESYNC')).toHaveLength(1);
+
+    capturedWs!.simulateMessage(snapshot(8, false));
+    capturedWs!.simulateMessage(delta(9, { computeMixWeight: 0.4 }));
+    expect(plugin.getState().lastState).toMatchObject({
+      isClutchEngaged: false,
+      computeMixWeight: 0.4,
+    });
+    plugin.destroy();
+  });
+
   it('marks disconnected on WebSocket close', () => {
     let capturedWs: ReturnType<typeof makeMockWs> | null = null;
     const plugin = new LogiActionsPlugin(() => {
@@ -156,10 +407,11 @@ describe('LogiActionsPlugin', () => {
 
     plugin.connect();
     capturedWs!.simulateOpen();
+    capturedWs!.simulateWelcome();
 
     // @ts-expect-error intentionally invalid
     plugin.sendHardwareEvent({ deviceId: 'INVALID' });
-    expect(capturedWs!.sentMessages).toHaveLength(0);
+    expect(capturedWs!.sentMessages.map((m) => JSON.parse(m).type)).toEqual(['HELLO']);
     plugin.destroy();
   });
 });
@@ -1,28 +1,35 @@
 import {
+  DaemonMessageSchema,
   LogiHardwareEventSchema,
+  PROTOCOL_VERSION,
+  SynapseStateSchema,
+  applyMergePatch,
+  type ClientMessage,
   type LogiHardwareEvent,
+  type ProtocolErrorCode,
+  type ProtocolFeature,
+  type ShutdownReason,
+  type StateDeltaMessage,
+  type StateTopic,
   type SynapseState,
 } from '@synapse/hardware-events';
 
 // ─── Plugin Config ────────────────────────────────────────────────────────────
 
-function buildDaemonWsUrl(): string {
-  const rawUrl = process.env['SYNAPSE_DAEMON_URL'] ?? 'ws://localhost:4040/ws';
-  const token = process.env['SYNAPSE_WS_TOKEN'];
-
-  try {
-    const url = new URL(rawUrl);
-    url.searchParams.set('role', 'plugin');
-    if (token) url.searchParams.set('token', token);
-    return url.toString();
-  } catch {
-    const query = new URLSearchParams({ role: 'plugin' });
-    if (token) query.set('token', token);
-
-    const separator = rawUrl.includes('?') ? '&' : '?';
-    return `${rawUrl}${separator}${query.toString()}`;
-  }
+function getDaemonWsUrl(): string {
+  return process.env['SYNAPSE_DAEMON_URL'] ?? 'ws://localhost:4040/ws';
 }
+
+const REQUESTED_FEATURES: ProtocolFeature[] = [
+  'HARDWARE_EVENTS',
+  'STATE_UPDATES',
+  'APP_CONTEXT',
+  'CLOCK_SYNC',
+  'HEARTBEAT',
+  'STATE_DELTAS',
+];
+/** Only SynapseState is mirrored, so kernel, transcription and latency updates are not needed */
+const REQUESTED_TOPICS: StateTopic[] = ['STATE'];
 const RECONNECT_DELAY_MS = 2_000;
 const MAX_RECONNECT_ATTEMPTS = 10;
 
@@ -32,6 +39,14 @@ export interface PluginState {
   connected: boolean;
   reconnectAttempts: number;
   lastState: SynapseState | null;
+  /** Negotiated protocol version; null until the daemon sends WELCOME */
+  protocolVersion: number | null;
+  features: ProtocolFeature[];
+  lastError: { code: ProtocolErrorCode; message: string } | null;
+  /** Foreground application last reported by Options+; re-sent after every WELCOME */
+  appContext: string | null;
+  /** Why the daemon last announced it was stopping; cleared by the next WELCOME */
+  daemonShutdown: ShutdownReason | null;
 }
 
 // ─── WebSocket Client Factory ─────────────────────────────────────────────────
@@ -53,7 +68,8 @@ export interface WebSocketLike {
 /**
  * Logitech Options+ Actions SDK Plugin.
  * Listens to hardware events from Logitech SDK and forwards them to
- * synapse-core-daemon via WebSocket at ws://localhost:4040/ws.
+ * synapse-core-daemon via WebSocket at ws://localhost:4040/ws, once the
+ * daemon has answered the plugin's HELLO with a WELCOME.
  *
  * Dead-man switch: on daemon disconnect, plugin defaults back to
  * standard hardware behaviour by ceasing to intercept events.
@@ -64,7 +80,16 @@ export class LogiActionsPlugin {
     connected: false,
     reconnectAttempts: 0,
     lastState: null,
+    protocolVersion: null,
+    features: [],
+    lastError: null,
+    appContext: null,
+    daemonShutdown: null,
   };
+  /** Sequence number `lastState` is at; null until the first STATE_UPDATE */
+  private lastSeq: number | null = null;
+  /** Set after a RESYNC is sent, so a gap requests one snapshot rather than one per delta */
+  private resyncPending = false;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private readonly wsFactory: WsFactory;
   private destroyed = false;
@@ -86,7 +111,7 @@ export class LogiActionsPlugin {
       this.reconnectTimer = null;
     }
 
-    const ws = this.wsFactory(buildDaemonWsUrl());
+    const ws = this.wsFactory(getDaemonWsUrl());
     const previousWs = this.ws;
     this.ws = ws;
 
@@ -106,47 +131,147 @@ export class LogiActionsPlugin {
         this.reconnectTimer = null;
       }
       this.state = { ...this.state, connected: true, reconnectAttempts: 0 };
+      this.sendMessage(ws, {
+        type: 'HELLO',
+        protocolVersion: PROTOCOL_VERSION,
+        role: 'plugin',
+        token: process.env['SYNAPSE_WS_TOKEN'],
+        features: REQUESTED_FEATURES,
+        topics: REQUESTED_TOPICS,
+        clientName: 'logi-actions-plugin',
+      });
     };
 
     ws.onmessage = (event) => {
       if (this.destroyed || this.ws !== ws) return;
+      let parsed: unknown;
       try {
-        const msg = JSON.parse(event.data) as { type: string; state?: SynapseState };
-        if (msg.type === 'STATE_UPDATE' && msg.state) {
-          this.state = { ...this.state, lastState: msg.state };
-        }
+        parsed = JSON.parse(event.data);
       } catch {
-        // ignore malformed messages
+        return; // ignore malformed messages
+      }
+      const result = DaemonMessageSchema.safeParse(parsed);
+      if (!result.success) return;
+
+      const msg = result.data;
+      switch (msg.type) {
+        case 'WELCOME':
+          this.state = {
+            ...this.state,
+            protocolVersion: msg.protocolVersion,
+            features: msg.features,
+            lastError: null,
+            daemonShutdown: null,
+          };
+          // The daemon follows WELCOME with a full STATE_UPDATE
+          this.lastSeq = null;
+          this.resyncPending = false;
+          if (this.state.appContext !== null) this.sendAppContext(ws);
+          break;
+        case 'STATE_UPDATE':
+          this.state = { ...this.state, lastState: msg.state ?? null };
+          this.lastSeq = msg.seq;
+          this.resyncPending = false;
+          break;
+        case 'STATE_DELTA':
+          this.applyStateDelta(ws, msg);
+          break;
+        case 'ERROR':
+          this.state = { ...this.state, lastError: { code: msg.code, message: msg.message } };
+          break;
+        case 'DAEMON_SHUTDOWN':
+          // The daemon released the clutch first; the socket closes next and reconnects as usual
+          this.state = { ...this.state, lastState: null, daemonShutdown: msg.reason };
+          this.lastSeq = null;
+          break;
+        case 'PING':
+          // Same clock as LogiHardwareEvent.timestamp, so the daemon can align the two
+          this.sendMessage(ws, {
+            type: 'PONG',
+            id: msg.id,
+            daemonTime: msg.daemonTime,
+            clientTime: Date.now(),
+          });
+          break;
       }
     };
 
     ws.onclose = () => {
       if (this.destroyed || this.ws !== ws) return;
-      this.state = { ...this.state, connected: false };
+      this.state = { ...this.state, connected: false, protocolVersion: null, features: [] };
       this.scheduleReconnect();
     };
 
     ws.onerror = () => {
       if (this.destroyed || this.ws !== ws) return;
       // Dead-man switch: on error, ensure we're flagged disconnected
-      this.state = { ...this.state, connected: false };
+      this.state = { ...this.state, connected: false, protocolVersion: null, features: [] };
     };
   }
 
   /** Forward a hardware event to the daemon */
   sendHardwareEvent(event: LogiHardwareEvent): void {
-    if (!this.state.connected || !this.ws) {
-      // Dead-man switch: daemon unreachable, do nothing (hardware defaults apply)
+    if (!this.state.connected || !this.ws || !this.state.features.includes('HARDWARE_EVENTS')) {
+      // Dead-man switch: daemon unreachable or handshake incomplete, do nothing
+      // (hardware defaults apply)
       return;
     }
     try {
       LogiHardwareEventSchema.parse(event); // validate before sending
-      this.ws.send(JSON.stringify(event));
+      this.sendMessage(this.ws, { type: 'HARDWARE_EVENT', event });
     } catch {
       // Swallow validation errors — invalid events are not forwarded
     }
   }
 
+  /**
+   * Report the foreground application so the daemon can switch binding
+   * context and persona. Only changes are forwarded.
+   */
+  setAppContext(appId: string | null): void {
+    if (appId === this.state.appContext) return;
+    this.state = { ...this.state, appContext: appId };
+    if (this.state.connected && this.ws) this.sendAppContext(this.ws);
+  }
+
+  private sendAppContext(ws: WebSocketLike): void {
+    if (!this.state.features.includes('APP_CONTEXT')) return;
+    this.sendMessage(ws, { type: 'APP_CONTEXT', appId: this.state.appContext });
+  }
+
+  /**
+   * Applies a delta that directly follows `lastSeq`. A gap, or a patch that
+   * leaves an invalid state, drops the delta and asks the daemon for a
+   * snapshot; deltas are ignored until it arrives.
+   */
+  private applyStateDelta(ws: WebSocketLike, delta: StateDeltaMessage): void {
+    if (this.resyncPending || (this.lastSeq !== null && delta.seq <= this.lastSeq)) return;
+    if (this.lastSeq === null || delta.seq !== this.lastSeq + 1) {
+      this.requestResync(ws);
+      return;
+    }
+    if (delta.patch['state'] !== undefined) {
+      const next = SynapseStateSchema.safeParse(
+        applyMergePatch(this.state.lastState, delta.patch['state']),
+      );
+      if (!next.success) {
+        this.requestResync(ws);
+        return;
+      }
+      this.state = { ...this.state, lastState: next.data };
+    }
+    this.lastSeq = delta.seq;
+  }
+
+  private requestResync(ws: WebSocketLike): void {
+    this.resyncPending = true;
+    this.sendMessage(ws, { type: 'RESYNC' });
+  }
+
+  private sendMessage(ws: WebSocketLike, message: ClientMessage): void {
+    ws.send(JSON.stringify(message));
+  }
+
   private scheduleReconnect(): void {
     if (this.destroyed) return;
     if (this.reconnectTimer !== null) return;
@@ -176,6 +301,12 @@ export class LogiActionsPlugin {
     }
     this.ws?.close();
     this.ws = null;
-    this.state = { ...this.state, connected: false, reconnectAttempts: 0 };
+    this.state = {
+      ...this.state,
+      connected: false,
+      reconnectAttempts: 0,
+      protocolVersion: null,
+      features: [],
+    };
   }
 }
@@ -46,6 +46,9 @@ function getActivePersona(state: SynapseState | null): AgentPersona | null {
   return state?.activeAgentContext ?? null;
 }
 
+/** Context windows offered by the dashboard's command buttons */
+const CONTEXT_WINDOW_PRESETS = [8_000, 32_000, 64_000, 128_000] as const;
+
 function cx(...classes: Array<string | null | undefined | false>): string {
   return classes.filter(Boolean).join(' ');
 }
@@ -223,6 +226,8 @@ function App(): JSX.Element {
     synapseType,
     latencyMs,
     transcription,
+    canCommand,
+    sendCommand,
   } = demoEnabled ? demo : daemon;
 
   const clutchEngaged = Boolean(state?.isClutchEngaged);
@@ -296,6 +301,25 @@ function App(): JSX.Element {
 
   const latencyLabel = latencyMs === null ? null : `${latencyMs.toFixed(2)}ms`;
 
+  // The daemon refuses persona switches while the agent is listening or executing
+  const canSwitchPersona =
+    canCommand && machineState !== 'VOICE_ACTIVE' && machineState !== 'AGENT_EXECUTING';
+
+  const personaCardProps = (target: AgentPersona) => ({
+    className: cx(
+      'personaCard',
+      persona === target && 'personaActive',
+      canSwitchPersona && 'personaClickable',
+    ),
+    ...(canSwitchPersona
+      ? {
+          role: 'button',
+          tabIndex: 0,
+          onClick: () => sendCommand({ action: 'SWITCH_PERSONA', persona: target }),
+        }
+      : {}),
+  });
+
   return (
     <div className="hudRoot">
       <div className="hudGrid" />
@@ -309,6 +333,15 @@ function App(): JSX.Element {
             <span className="clutchTextStrong">{clutchText}</span>
             {machineState ? <span className="muted">&nbsp;({machineState})</span> : null}
           </div>
+          {canCommand && clutchEngaged ? (
+            <button
+              type="button"
+              className="commandButton"
+              onClick={() => sendCommand({ action: 'FORCE_RELEASE' })}
+            >
+              Force release
+            </button>
+          ) : null}
         </div>
       </div>
 
@@ -323,6 +356,28 @@ function App(): JSX.Element {
             <Meter value={computeMix} />
             <div className="row" style={{ marginTop: 10 }}>
               <div className="muted">Local</div>
+              {canCommand ? (
+                <div className="commandRow">
+                  <button
+                    type="button"
+                    className="commandButton"
+                    onClick={() =>
+                      sendCommand({ action: 'SET_COMPUTE_MIX', weight: clamp01(computeMix - 0.1) })
+                    }
+                  >
+                    −
+                  </button>
+                  <button
+                    type="button"
+                    className="commandButton"
+                    onClick={() =>
+                      sendCommand({ action: 'SET_COMPUTE_MIX', weight: clamp01(computeMix + 0.1) })
+                    }
+                  >
+                    +
+                  </button>
+                </div>
+              ) : null}
               <div className="muted">Cloud</div>
             </div>
           </div>
@@ -333,6 +388,23 @@ function App(): JSX.Element {
               <div className="muted">Window</div>
               <div className="value">{contextTokens ? `${formatTokens(contextTokens)} tokens` : '—'}</div>
             </div>
+            {canCommand && contextTokens ? (
+              <div className="row" style={{ marginTop: 6 }}>
+                <div className="muted">Set window</div>
+                <div className="commandRow">
+                  {CONTEXT_WINDOW_PRESETS.map((tokens) => (
+                    <button
+                      key={tokens}
+                      type="button"
+                      className={cx('commandButton', tokens === contextTokens && 'commandActive')}
+                      onClick={() => sendCommand({ action: 'SET_CONTEXT_WINDOW', tokens })}
+                    >
+                      {formatTokens(tokens)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
             {primaryModel ? (
               <div className="row" style={{ marginTop: 6 }}>
                 <div className="muted">Primary model</div>
@@ -344,21 +416,21 @@ function App(): JSX.Element {
           <div>
             <div className="sectionTitle">Persona grid</div>
             <div className="personaGrid">
-              <div className={cx('personaCard', persona === 'CODER' && 'personaActive')}>
+              <div {...personaCardProps('CODER')}>
                 <div className="personaKey">KEY 1</div>
                 <div className="personaName">CODER</div>
               </div>
-              <div className={cx('personaCard', persona === 'NAVIGATOR' && 'personaActive')}>
+              <div {...personaCardProps('NAVIGATOR')}>
                 <div className="personaKey">KEY 2</div>
                 <div className="personaName">NAVIGATOR</div>
               </div>
-              <div className={cx('personaCard', persona === 'RESEARCHER' && 'personaActive')}>
+              <div {...personaCardProps('RESEARCHER')}>
                 <div className="personaKey">KEY 3</div>
                 <div className="personaName">RESEARCHER</div>
               </div>
               <div className="personaCard">
                 <div className="personaKey">KEY 4</div>
-                <div className="personaName muted">RESERVED</div>
+                <div className="personaName muted">MACRO: DEEP-RESEARCH</div>
               </div>
             </div>
           </div>
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { SynapseState } from '@synapse/hardware-events';
+import type { ClientMessage, SynapseState, UiCommand } from '@synapse/hardware-events';
 import type { TranscriptionResult } from '@synapse/voice-pipeline';
 import type { OsControlState } from '@synapse/ui-executor-bridge';
 
@@ -18,6 +18,9 @@ export interface DaemonState {
   synapseType: string | null;
   latencyMs: number | null;
   transcription: TranscriptionResult | null;
+  /** Whether the daemon granted COMMANDS, i.e. sendCommand has any effect */
+  canCommand: boolean;
+  sendCommand: (command: UiCommand) => void;
 }
 
 interface DaemonMessage {
@@ -30,12 +33,50 @@ interface DaemonMessage {
   osControlState?: OsControlState;
   transcription?: TranscriptionResult;
   machineState?: string;
+  /** Sequence number of STATE_UPDATE and STATE_DELTA */
+  seq?: number;
+  /** STATE_DELTA only: JSON Merge Patch against the previous state */
+  patch?: Record<string, unknown>;
+}
+
+/** Must match PROTOCOL_VERSION in @synapse/hardware-events */
+const PROTOCOL_VERSION = 1;
+
+function getDaemonToken(): string | undefined {
+  const token = (import.meta as { env?: { VITE_SYNAPSE_WS_TOKEN?: unknown } }).env
+    ?.VITE_SYNAPSE_WS_TOKEN;
+  return typeof token === 'string' && token.length > 0 ? token : undefined;
+}
+
+function buildHello(): ClientMessage {
+  return {
+    type: 'HELLO',
+    protocolVersion: PROTOCOL_VERSION,
+    role: 'ui',
+    token: getDaemonToken(),
+    // Without the daemon's token COMMANDS is withheld and the dashboard stays read-only
+    features: ['STATE_UPDATES', 'STATE_DELTAS', 'COMMANDS'],
+    // The dashboard shows every part of the state, latency included
+    topics: ['STATE', 'KERNEL', 'TRANSCRIPTION', 'METRICS'],
+    clientName: 'synapse-config-ui',
+  };
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
+/** RFC 7396 merge patch, as applied by applyMergePatch in @synapse/hardware-events */
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isRecord(patch)) return patch;
+  const result: Record<string, unknown> = isRecord(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+}
+
 function parsePort(raw: string | null): number | null {
   if (!raw) return null;
   const candidate = Number(raw);
@@ -103,9 +144,7 @@ function isTranscriptionResult(value: unknown): value is TranscriptionResult {
 }
 
 function buildDaemonWsUrl(raw: string): string {
-  const url = new URL(raw);
-  if (!url.searchParams.has('role')) url.searchParams.set('role', 'ui');
-  return url.toString();
+  return new URL(raw).toString();
 }
 
 function getDaemonWsUrl(): string {
@@ -178,10 +217,16 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
   const [synapseType, setSynapseType] = useState<string | null>(null);
   const [latencyMs, setLatencyMs] = useState<number | null>(null);
   const [transcription, setTranscription] = useState<TranscriptionResult | null>(null);
+  const [canCommand, setCanCommand] = useState(false);
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
   const destroyedRef = useRef(false);
+  const nextCommandIdRef = useRef(1);
+  /** Last full state, which STATE_DELTA patches apply to */
+  const snapshotRef = useRef<Record<string, unknown> | null>(null);
+  const lastSeqRef = useRef<number | null>(null);
+  const resyncPendingRef = useRef(false);
 
   const connect = useCallback(() => {
     if (!enabledRef.current) return;
@@ -203,13 +248,71 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
 
     const ws = new WebSocket(wsUrl);
     wsRef.current = ws;
+    snapshotRef.current = null;
+    lastSeqRef.current = null;
+    resyncPendingRef.current = false;
+
+    const requestResync = (): void => {
+      resyncPendingRef.current = true;
+      const message: ClientMessage = { type: 'RESYNC' };
+      ws.send(JSON.stringify(message));
+    };
+
+    /** Applies the fields present in a STATE_UPDATE, or the fields a delta changed */
+    const applyStateFields = (msg: Record<string, unknown>): void => {
+      if ('state' in msg) {
+        const nextState = msg.state;
+        if (nextState === null) setState(null);
+        else if (isSynapseState(nextState)) setState(nextState);
+      }
+
+      if ('kernelConfig' in msg) {
+        const nextKernelConfig = msg.kernelConfig;
+        if (nextKernelConfig === null) setKernelConfig(null);
+        else if (isKernelConfig(nextKernelConfig)) setKernelConfig(nextKernelConfig);
+      }
+
+      if ('osControlState' in msg) {
+        const nextOsControlState = msg.osControlState;
+        if (nextOsControlState === null) setOsControlState(null);
+        else if (isOsControlState(nextOsControlState)) setOsControlState(nextOsControlState);
+      }
+
+      if ('machineState' in msg) {
+        const nextMachineState = msg.machineState;
+        if (typeof nextMachineState === 'string' || nextMachineState === null) {
+          setMachineState(nextMachineState ?? null);
+        }
+      }
+
+      if ('synapseType' in msg) {
+        const nextSynapseType = msg.synapseType;
+        if (typeof nextSynapseType === 'string' || nextSynapseType === null) {
+          setSynapseType(nextSynapseType ?? null);
+        }
+      }
+
+      if ('latencyMs' in msg) {
+        const nextLatencyMs = msg.latencyMs;
+        if (typeof nextLatencyMs === 'number' || nextLatencyMs === null) {
+          setLatencyMs(nextLatencyMs ?? null);
+        }
+      }
+
+      if ('transcription' in msg) {
+        const nextTranscription = msg.transcription;
+        if (nextTranscription === null) setTranscription(null);
+        else if (isTranscriptionResult(nextTranscription)) setTranscription(nextTranscription);
+      }
+    };
 
     ws.onopen = () => {
       if (destroyedRef.current) {
         ws.close();
         return;
       }
-      setConnected(true);
+      // Connected only once the daemon accepts our HELLO with a WELCOME
+      ws.send(JSON.stringify(buildHello()));
     };
 
     ws.onclose = () => {
@@ -222,6 +325,7 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
       setSynapseType(null);
       setLatencyMs(null);
       setTranscription(null);
+      setCanCommand(false);
 
       if (reconnectTimeoutRef.current === null && enabledRef.current) {
         reconnectTimeoutRef.current = window.setTimeout(connect, 1_750);
@@ -238,6 +342,7 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
       setSynapseType(null);
       setLatencyMs(null);
       setTranscription(null);
+      setCanCommand(false);
 
       try {
         ws.close();
@@ -261,54 +366,57 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
       }
 
       if (!isRecord(parsed)) return;
-      if (parsed.type !== 'STATE_UPDATE') return;
-
-      const msg: Record<string, unknown> = parsed;
-
-      if ('state' in msg) {
-        const nextState = msg.state;
-        if (nextState === null) setState(null);
-        else if (isSynapseState(nextState)) setState(nextState);
-      }
-
-      if ('kernelConfig' in msg) {
-        const nextKernelConfig = msg.kernelConfig;
-        if (nextKernelConfig === null) setKernelConfig(null);
-        else if (isKernelConfig(nextKernelConfig)) setKernelConfig(nextKernelConfig);
-      }
-
-      if ('osControlState' in msg) {
-        const nextOsControlState = msg.osControlState;
-        if (nextOsControlState === null) setOsControlState(null);
-        else if (isOsControlState(nextOsControlState)) setOsControlState(nextOsControlState);
+      if (parsed.type === 'WELCOME') {
+        setConnected(true);
+        setCanCommand(Array.isArray(parsed.features) && parsed.features.includes('COMMANDS'));
+        return;
       }
-
-      if ('machineState' in msg) {
-        const nextMachineState = msg.machineState;
-        if (typeof nextMachineState === 'string' || nextMachineState === null) {
-          setMachineState(nextMachineState ?? null);
+      if (parsed.type === 'COMMAND_RESULT') {
+        if (parsed.ok !== true) {
+          console.warn('[synapse-config-ui] Daemon rejected command', {
+            id: parsed.id,
+            error: parsed.error,
+          });
         }
+        return;
       }
-
-      if ('synapseType' in msg) {
-        const nextSynapseType = msg.synapseType;
-        if (typeof nextSynapseType === 'string' || nextSynapseType === null) {
-          setSynapseType(nextSynapseType ?? null);
-        }
+      if (parsed.type === 'ERROR') {
+        console.warn('[synapse-config-ui] Daemon rejected connection', {
+          code: parsed.code,
+          message: parsed.message,
+        });
+        return;
       }
+      if (parsed.type !== 'STATE_UPDATE' && parsed.type !== 'STATE_DELTA') return;
 
-      if ('latencyMs' in msg) {
-        const nextLatencyMs = msg.latencyMs;
-        if (typeof nextLatencyMs === 'number' || nextLatencyMs === null) {
-          setLatencyMs(nextLatencyMs ?? null);
-        }
+      const msg: Record<string, unknown> = parsed;
+      const seq = typeof msg.seq === 'number' ? msg.seq : null;
+
+      if (msg.type === 'STATE_UPDATE') {
+        snapshotRef.current = msg;
+        lastSeqRef.current = seq;
+        resyncPendingRef.current = false;
+        applyStateFields(msg);
+        return;
       }
 
-      if ('transcription' in msg) {
-        const nextTranscription = msg.transcription;
-        if (nextTranscription === null) setTranscription(null);
-        else if (isTranscriptionResult(nextTranscription)) setTranscription(nextTranscription);
+      // STATE_DELTA: only the next seq applies; a gap asks for one snapshot
+      if (resyncPendingRef.current || seq === null || !isRecord(msg.patch)) return;
+      const lastSeq = lastSeqRef.current;
+      if (lastSeq !== null && seq <= lastSeq) return;
+      if (lastSeq === null || snapshotRef.current === null || seq !== lastSeq + 1) {
+        requestResync();
+        return;
       }
+      const snapshot = applyMergePatch(snapshotRef.current, msg.patch) as Record<string, unknown>;
+      snapshotRef.current = snapshot;
+      lastSeqRef.current = seq;
+      // A field the patch removed is null again; the cause fields come with the delta
+      const changed: Record<string, unknown> = {};
+      for (const key of Object.keys(msg.patch)) changed[key] = snapshot[key] ?? null;
+      if ('synapseType' in msg) changed.synapseType = msg.synapseType;
+      if ('latencyMs' in msg) changed.latencyMs = msg.latencyMs;
+      applyStateFields(changed);
     };
   }, [wsUrl]);
 
@@ -332,6 +440,7 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
       setSynapseType(null);
       setLatencyMs(null);
       setTranscription(null);
+      setCanCommand(false);
 
       return;
     }
@@ -348,6 +457,17 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
     };
   }, [connect, enabled]);
 
+  const sendCommand = useCallback((command: UiCommand) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const message: ClientMessage = {
+      type: 'COMMAND',
+      id: `ui-${nextCommandIdRef.current++}`,
+      command,
+    };
+    ws.send(JSON.stringify(message));
+  }, []);
+
   return {
     connected,
     state,
@@ -357,5 +477,7 @@ export function useDaemonWs(options?: { enabled?: boolean }): DaemonState {
     synapseType,
     latencyMs,
     transcription,
+    canCommand,
+    sendCommand,
   };
 }
@@ -127,5 +127,8 @@ export function useDemoDaemonState(enabled: boolean): DaemonState {
     synapseType,
     latencyMs: 0,
     transcription,
+    // Demo mode is driven from the keyboard instead
+    canCommand: false,
+    sendCommand: () => undefined,
   };
 }
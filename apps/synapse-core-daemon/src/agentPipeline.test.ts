@@ -0,0 +1,120 @@
+import type { AgentRunStatus } from '@synapse/hardware-events';
+import {
+  MockKernelMixer,
+  type IKernelMixer,
+  type KernelDispatchOptions,
+  type KernelResponse,
+} from '@synapse/symbios-connector';
+import { MockUiExecutorBridge } from '@synapse/ui-executor-bridge';
+import type { TranscriptionResult } from '@synapse/voice-pipeline';
+import { AgentPipeline } from './agentPipeline';
+import { SynapseMachine } from './stateMachine';
+
+function transcription(transcript: string, isFinal = true): TranscriptionResult {
+  return { transcript, isFinal, confidence: 0.9, durationMs: 500, timestamp: 1_000 };
+}
+
+/** Kernel that answers with `content`, or never answers until aborted */
+class StubKernelMixer extends MockKernelMixer {
+  constructor(private readonly content: string | null) {
+    super();
+  }
+
+  override dispatch(prompt: string, options?: KernelDispatchOptions): Promise<KernelResponse> {
+    if (this.content === null) {
+      return new Promise((_, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+      });
+    }
+    return Promise.resolve({
+      requestId: 'req-1',
+      model: 'CLOUD_CLAUDE_3_5_SONNET',
+      content: this.content,
+      latencyMs: 1,
+      timestamp: 1_000,
+    });
+  }
+}
+
+describe('AgentPipeline', () => {
+  let machine: SynapseMachine;
+  let uiBridge: MockUiExecutorBridge;
+  let stages: AgentRunStatus[];
+
+  const createPipeline = (kernelMixer: IKernelMixer): AgentPipeline =>
+    new AgentPipeline({
+      machine,
+      kernelMixer,
+      uiBridge,
+      onStage: (run) => stages.push(run),
+    });
+
+  beforeEach(async () => {
+    machine = new SynapseMachine();
+    uiBridge = new MockUiExecutorBridge();
+    stages = [];
+    machine.send({ type: 'CLUTCH_ENGAGE', persona: 'NAVIGATOR' });
+    await uiBridge.engage({ type: 'ENGAGE', timestamp: 1_000, agentPersona: 'NAVIGATOR' });
+  });
+
+  it('dispatches a final transcription and executes the resulting plan', async () => {
+    const plan = JSON.stringify({ steps: [{ kind: 'KEY', combo: 'cmd+t' }] });
+    const pipeline = createPipeline(new StubKernelMixer(plan));
+
+    const result = await pipeline.run(transcription('open a new tab'));
+
+    expect(stages.map((s) => s.stage)).toEqual(['DISPATCHING', 'EXECUTING', 'COMPLETED']);
+    expect(result).toMatchObject({
+      stage: 'COMPLETED',
+      instruction: 'open a new tab',
+      model: 'CLOUD_CLAUDE_3_5_SONNET',
+      stepCount: 1,
+    });
+    expect(machine.getState()).toBe('CLUTCH_ENGAGED');
+    expect(pipeline.isRunning()).toBe(false);
+  });
+
+  it('passes the active persona to the kernel', async () => {
+    const kernelMixer = new MockKernelMixer();
+    const dispatch = jest.spyOn(kernelMixer, 'dispatch');
+    await createPipeline(kernelMixer).run(transcription('summarise this page'));
+
+    expect(dispatch).toHaveBeenCalledWith(
+      'summarise this page',
+      expect.objectContaining({ persona: 'NAVIGATOR' }),
+    );
+  });
+
+  it('reports CANCELLED without touching the machine when cancelled mid-dispatch', async () => {
+    const pipeline = createPipeline(new StubKernelMixer(null));
+    const running = pipeline.run(transcription('open a new tab'));
+
+    expect(machine.getState()).toBe('VOICE_ACTIVE');
+    expect(pipeline.isRunning()).toBe(true);
+    machine.send({ type: 'CLUTCH_RELEASE' });
+    expect(pipeline.cancel('clutch released')).toBe(true);
+
+    const result = await running;
+    expect(result).toMatchObject({ stage: 'CANCELLED', error: 'clutch released' });
+    expect(machine.getState()).toBe('IDLE');
+  });
+
+  it('fails the run and resumes listening on an invalid plan', async () => {
+    const pipeline = createPipeline(new StubKernelMixer('{"steps":[{"kind":"DANCE"}]}'));
+    const result = await pipeline.run(transcription('do something odd'));
+
+    expect(result?.stage).toBe('FAILED');
+    expect(result?.error).toMatch(/not a valid action plan/);
+    expect(machine.getState()).toBe('CLUTCH_ENGAGED');
+  });
+
+  it('ignores partial transcripts and transcripts outside a clutch hold', async () => {
+    const pipeline = createPipeline(new MockKernelMixer());
+    await expect(pipeline.run(transcription('open a', false))).resolves.toBeNull();
+    await expect(pipeline.run(transcription('   '))).resolves.toBeNull();
+
+    machine.send({ type: 'CLUTCH_RELEASE' });
+    await expect(pipeline.run(transcription('open a new tab'))).resolves.toBeNull();
+    expect(stages).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import type { AgentRunStatus } from '@synapse/hardware-events';
+import type { IKernelMixer } from '@synapse/symbios-connector';
+import { buildActionPlan, type IUiExecutorBridge } from '@synapse/ui-executor-bridge';
+import type { TranscriptionResult } from '@synapse/voice-pipeline';
+import type { SynapseMachine } from './stateMachine.js';
+
+// ─── Transcription → Action Pipeline ─────────────────────────────────────────
+
+export interface AgentPipelineDeps {
+  machine: SynapseMachine;
+  kernelMixer: IKernelMixer;
+  uiBridge: IUiExecutorBridge;
+  /** Called on every stage transition of a run, including the terminal one */
+  onStage: (run: AgentRunStatus) => void;
+}
+
+interface ActiveRun {
+  status: AgentRunStatus;
+  controller: AbortController;
+}
+
+/**
+ * Turns a final transcription into agent work: dispatches it to the kernel
+ * as the active persona, builds an action plan from the response and runs
+ * it on the UI executor bridge, driving VOICE_READY → AGENT_READY →
+ * AGENT_COMPLETE / AGENT_FAILED on the machine along the way.
+ *
+ * One run at a time, and only while the clutch is held. `cancel()` aborts
+ * the in-flight kernel request or plan; the caller is expected to have
+ * released the clutch, so a cancelled run sends nothing to the machine.
+ */
+export class AgentPipeline {
+  private active: ActiveRun | null = null;
+
+  constructor(private readonly deps: AgentPipelineDeps) {}
+
+  isRunning(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Starts a run for `transcription` and resolves once it has finished.
+   * Never rejects: failures are reported through `onStage` as FAILED.
+   * Partial, empty or out-of-turn transcriptions are ignored.
+   */
+  async run(transcription: TranscriptionResult): Promise<AgentRunStatus | null> {
+    const { machine, kernelMixer, uiBridge } = this.deps;
+    const instruction = transcription.transcript.trim();
+    if (!transcription.isFinal || instruction.length === 0) return null;
+    if (this.active || machine.getState() !== 'CLUTCH_ENGAGED') return null;
+
+    const controller = new AbortController();
+    const run: ActiveRun = {
+      status: { runId: randomUUID(), stage: 'DISPATCHING', instruction },
+      controller,
+    };
+    this.active = run;
+    const { signal } = controller;
+
+    try {
+      const persona = machine.getData().activeAgentContext;
+      machine.send({ type: 'VOICE_READY' });
+      this.report(run, {});
+
+      const response = await kernelMixer.dispatch(instruction, { persona, signal });
+      signal.throwIfAborted();
+      const plan = buildActionPlan(response.content, {
+        planId: run.status.runId,
+        persona,
+        instruction,
+      });
+
+      machine.send({ type: 'AGENT_READY' });
+      this.report(run, { stage: 'EXECUTING', model: response.model, stepCount: plan.steps.length });
+
+      await uiBridge.execute(plan, signal);
+      signal.throwIfAborted();
+
+      machine.send({ type: 'AGENT_COMPLETE' });
+      this.report(run, { stage: 'COMPLETED' });
+    } catch (err) {
+      if (signal.aborted) {
+        this.report(run, { stage: 'CANCELLED', error: String(signal.reason) });
+      } else {
+        machine.send({ type: 'AGENT_FAILED' });
+        this.report(run, { stage: 'FAILED', error: (err as Error).message });
+      }
+    } finally {
+      if (this.active === run) this.active = null;
+    }
+    return run.status;
+  }
+
+  /** Aborts the active run, if any. Returns whether one was running. */
+  cancel(reason: string): boolean {
+    if (!this.active) return false;
+    this.active.controller.abort(reason);
+    return true;
+  }
+
+  private report(run: ActiveRun, update: Partial<AgentRunStatus>): void {
+    run.status = { ...run.status, ...update };
+    this.deps.onStage({ ...run.status });
+  }
+}
@@ -0,0 +1,111 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AuditJournal,
+  GENESIS_HASH,
+  queryAuditJournal,
+  verifyAuditJournal,
+  type AuditEntry,
+} from './auditJournal';
+
+describe('AuditJournal', () => {
+  let dir: string;
+  let path: string;
+  let now: number;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-audit-'));
+    path = join(dir, 'audit', 'audit.jsonl');
+    now = 1_700_000_000_000;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (): AuditJournal => AuditJournal.open(path, () => now);
+
+  const writeHandoffs = (): void => {
+    const journal = open();
+    journal.append({
+      action: 'OS_CONTROL_ENGAGED',
+      cause: 'HARDWARE_EVENT',
+      sessionId: 'session-a',
+      details: { deviceId: 'mx-master-4', persona: 'CODER' },
+    });
+    now += 1_000;
+    journal.append({ action: 'OS_CONTROL_RELEASED', cause: 'WATCHDOG', sessionId: null });
+    now += 1_000;
+    journal.append({ action: 'PERSONA_SWITCHED', cause: 'UI_COMMAND', sessionId: 'session-ui' });
+  };
+
+  const readEntries = (): AuditEntry[] =>
+    readFileSync(path, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as AuditEntry);
+
+  const writeEntries = (entries: unknown[]): void =>
+    writeFileSync(path, `${entries.map((entry) => JSON.stringify(entry)).join('\n')}\n`);
+
+  it('chains entries and continues the chain after reopening', () => {
+    writeHandoffs();
+    open().append({ action: 'DEAD_MAN_TRIGGERED', cause: 'DEAD_MAN', sessionId: 'session-a' });
+
+    const entries = readEntries();
+    expect(entries.map((entry) => entry.seq)).toEqual([0, 1, 2, 3]);
+    expect(entries[0]?.prevHash).toBe(GENESIS_HASH);
+    expect(entries[3]?.prevHash).toBe(entries[2]?.hash);
+    expect(verifyAuditJournal(path)).toEqual({
+      ok: true,
+      entryCount: 4,
+      lastHash: entries[3]?.hash,
+    });
+  });
+
+  it('queries entries by time range', () => {
+    writeHandoffs();
+    const start = 1_700_000_000_000;
+    expect(queryAuditJournal(path).map((entry) => entry.action)).toEqual([
+      'OS_CONTROL_ENGAGED',
+      'OS_CONTROL_RELEASED',
+      'PERSONA_SWITCHED',
+    ]);
+    expect(
+      queryAuditJournal(path, { from: start + 1_000, to: start + 1_000 }).map((e) => e.cause),
+    ).toEqual(['WATCHDOG']);
+    expect(queryAuditJournal(path, { limit: 1 }).map((entry) => entry.seq)).toEqual([2]);
+    expect(queryAuditJournal(join(dir, 'missing.jsonl'))).toEqual([]);
+  });
+
+  it('detects edited entries', () => {
+    writeHandoffs();
+    const entries = readEntries();
+    writeEntries(
+      entries.map((entry) => (entry.seq === 1 ? { ...entry, cause: 'UI_COMMAND' } : entry)),
+    );
+    expect(verifyAuditJournal(path)).toMatchObject({
+      ok: false,
+      line: 2,
+      reason: 'hash does not match the entry contents',
+    });
+  });
+
+  it('detects removed and reordered entries', () => {
+    writeHandoffs();
+    const [first, second, third] = readEntries();
+    writeEntries([first, third]);
+    expect(verifyAuditJournal(path)).toMatchObject({ ok: false, line: 2 });
+
+    writeEntries([second, first, third]);
+    expect(verifyAuditJournal(path)).toMatchObject({ ok: false, line: 1 });
+  });
+
+  it('reports unreadable lines instead of throwing', () => {
+    writeHandoffs();
+    writeFileSync(path, `${readFileSync(path, 'utf8')}not json\n`);
+    expect(verifyAuditJournal(path)).toMatchObject({ ok: false, line: 4 });
+    expect(() => open()).toThrow(/Invalid audit journal/);
+  });
+});
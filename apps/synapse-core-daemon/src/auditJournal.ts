@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { z } from 'zod';
+
+// ─── Audit Entries ────────────────────────────────────────────────────────────
+
+export const AuditActionSchema = z.enum([
+  /** uiBridge.engage: JAYU_AGENT took the OS cursor */
+  'OS_CONTROL_ENGAGED',
+  /** uiBridge.release: OS control handed back */
+  'OS_CONTROL_RELEASED',
+  'PERSONA_SWITCHED',
+  'DEAD_MAN_TRIGGERED',
+]);
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+/** What made the daemon act */
+export const AuditCauseSchema = z.enum([
+  'HARDWARE_EVENT',
+  'APP_CONTEXT',
+  'UI_COMMAND',
+  'REST_API',
+  'WATCHDOG',
+  'DEAD_MAN',
+  'RESTORE',
+  'SHUTDOWN',
+]);
+export type AuditCause = z.infer<typeof AuditCauseSchema>;
+
+const Sha256Schema = z.string().regex(/^[0-9a-f]{64}$/);
+
+export const AuditEntrySchema = z.object({
+  /** Position in the journal, from 0 with no gaps */
+  seq: z.number().int().nonnegative(),
+  /** Epoch ms */
+  timestamp: z.number().int().positive(),
+  action: AuditActionSchema,
+  cause: AuditCauseSchema,
+  /** Session the cause came from; null for daemon-internal causes */
+  sessionId: z.string().nullable(),
+  details: z.record(z.unknown()),
+  /** `hash` of the previous entry; GENESIS_HASH for the first */
+  prevHash: Sha256Schema,
+  /** SHA-256 over this entry's other fields, chaining it to every earlier entry */
+  hash: Sha256Schema,
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+/** Why and on whose behalf the daemon acted */
+export type AuditOrigin = Pick<AuditEntry, 'cause' | 'sessionId'>;
+
+export type AuditRecord = AuditOrigin & {
+  action: AuditAction;
+  details?: Record<string, unknown>;
+};
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  // Fixed field order; `details` keeps the order it was written (and parsed) in
+  const body = [
+    entry.seq,
+    entry.timestamp,
+    entry.action,
+    entry.cause,
+    entry.sessionId,
+    entry.details,
+    entry.prevHash,
+  ];
+  return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+// ─── Journal ──────────────────────────────────────────────────────────────────
+
+function readLines(path: string): string[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+function parseEntry(line: string, lineNumber: number, path: string): AuditEntry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(line) as unknown;
+  } catch (err) {
+    throw new Error(`Invalid audit journal ${path} line ${lineNumber}: ${(err as Error).message}`);
+  }
+  const result = AuditEntrySchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid audit journal ${path} line ${lineNumber}: ` +
+        result.error.issues.map((issue) => issue.message).join('; '),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Append-only, hash-chained JSONL journal of OS control handoffs.
+ * Entries are written synchronously, one line each, so the journal is on
+ * disk before the action it records is reported anywhere else.
+ */
+export class AuditJournal {
+  private nextSeq: number;
+  private lastHash: string;
+
+  private constructor(
+    readonly path: string,
+    tail: AuditEntry | null,
+    private readonly now: () => number,
+  ) {
+    this.nextSeq = tail ? tail.seq + 1 : 0;
+    this.lastHash = tail ? tail.hash : GENESIS_HASH;
+  }
+
+  /**
+   * Opens the journal at `path`, continuing the chain from its last entry.
+   * Throws if that entry is unreadable; run `pnpm verify-audit` to find out why.
+   */
+  static open(path: string, now: () => number = Date.now): AuditJournal {
+    mkdirSync(dirname(path), { recursive: true });
+    const lines = readLines(path);
+    const last = lines.at(-1);
+    return new AuditJournal(
+      path,
+      last === undefined ? null : parseEntry(last, lines.length, path),
+      now,
+    );
+  }
+
+  append(record: AuditRecord): AuditEntry {
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      seq: this.nextSeq,
+      timestamp: this.now(),
+      action: record.action,
+      cause: record.cause,
+      sessionId: record.sessionId,
+      details: record.details ?? {},
+      prevHash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+    this.nextSeq += 1;
+    this.lastHash = entry.hash;
+    return entry;
+  }
+}
+
+/** Query string of GET /audit */
+export const AuditQuerySchema = z.object({
+  /** Epoch ms, inclusive */
+  from: z.coerce.number().int().optional(),
+  /** Epoch ms, inclusive */
+  to: z.coerce.number().int().optional(),
+  /** Newest entries win when more match */
+  limit: z.coerce.number().int().positive().optional(),
+});
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+/** Reads the entries in a time range, oldest first. Throws on an unreadable line. */
+export function queryAuditJournal(path: string, query: AuditQuery = {}): AuditEntry[] {
+  const matches = readLines(path)
+    .map((line, index) => parseEntry(line, index + 1, path))
+    .filter(
+      (entry) =>
+        (query.from === undefined || entry.timestamp >= query.from) &&
+        (query.to === undefined || entry.timestamp <= query.to),
+    );
+  return query.limit === undefined ? matches : matches.slice(-query.limit);
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+export type AuditVerification =
+  | {
+      ok: true;
+      entryCount: number;
+      /** Record this elsewhere to detect the tail of the journal being cut off */
+      lastHash: string;
+    }
+  | { ok: false; entryCount: number; line: number; reason: string };
+
+/**
+ * Walks the chain and reports the first line that was edited, removed,
+ * reordered or inserted. Truncating the tail is only detectable against a
+ * `lastHash` recorded earlier.
+ */
+export function verifyAuditJournal(path: string): AuditVerification {
+  const lines = readLines(path);
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, line] of lines.entries()) {
+    const lineNumber = index + 1;
+    const fail = (reason: string): AuditVerification => ({
+      ok: false,
+      entryCount: lines.length,
+      line: lineNumber,
+      reason,
+    });
+
+    let entry: AuditEntry;
+    try {
+      entry = parseEntry(line, lineNumber, path);
+    } catch (err) {
+      return fail((err as Error).message);
+    }
+    if (entry.seq !== index) return fail(`expected seq ${index}, found ${entry.seq}`);
+    if (entry.prevHash !== prevHash) return fail('prevHash does not match the previous entry');
+    const { hash, ...unhashed } = entry;
+    if (hashAuditEntry(unhashed) !== hash) return fail('hash does not match the entry contents');
+    prevHash = hash;
+  }
+
+  return { ok: true, entryCount: lines.length, lastHash: prevHash };
+}
@@ -0,0 +1,75 @@
+import {
+  DEFAULT_SEND_BUFFER_LIMITS,
+  SendBufferMonitor,
+  resolveSendBufferLimits,
+} from './backpressure';
+
+describe('SendBufferMonitor', () => {
+  const limits = { maxBufferedBytes: 1_000, overloadTimeoutMs: 500 };
+  let now: number;
+  let buffered: number;
+  let events: string[];
+  let monitor: SendBufferMonitor;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    buffered = 0;
+    events = [];
+    monitor = new SendBufferMonitor(
+      limits,
+      () => buffered,
+      {
+        onDrained: () => events.push('drained'),
+        onOverloaded: (bytes, ms) => events.push(`overloaded:${bytes}:${ms}`),
+      },
+      50,
+      () => now,
+    );
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number): void => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  it('stays congested until a poll sees the buffer drain', () => {
+    expect(monitor.congested()).toBe(false);
+    buffered = 5_000;
+    expect(monitor.congested()).toBe(true);
+
+    buffered = 0;
+    expect(monitor.congested()).toBe(true);
+    advance(50);
+    expect(events).toEqual(['drained']);
+    expect(monitor.congested()).toBe(false);
+  });
+
+  it('reports a buffer that stays over the limit past the timeout', () => {
+    buffered = 5_000;
+    monitor.congested();
+    advance(450);
+    expect(events).toEqual([]);
+    advance(50);
+    expect(events).toEqual(['overloaded:5000:500']);
+    advance(500);
+    expect(events).toHaveLength(1);
+  });
+});
+
+describe('resolveSendBufferLimits', () => {
+  it('reads overrides and rejects invalid values', () => {
+    expect(resolveSendBufferLimits({})).toEqual(DEFAULT_SEND_BUFFER_LIMITS);
+    expect(resolveSendBufferLimits({ SYNAPSE_WS_MAX_BUFFERED_BYTES: '65536' })).toMatchObject({
+      maxBufferedBytes: 65_536,
+    });
+    expect(() => resolveSendBufferLimits({ SYNAPSE_WS_OVERLOAD_TIMEOUT_MS: '0' })).toThrow(
+      /SYNAPSE_WS_OVERLOAD_TIMEOUT_MS/,
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { daemonNow } from './clockSync.js';
+
+// ─── Send Buffer Limits ───────────────────────────────────────────────────────
+
+export interface SendBufferLimits {
+  /** Bytes queued on a socket above which it only gets clutch changes */
+  maxBufferedBytes: number;
+  /** How long a socket may stay above the limit before it is dropped */
+  overloadTimeoutMs: number;
+}
+
+export const DEFAULT_SEND_BUFFER_LIMITS: SendBufferLimits = {
+  maxBufferedBytes: 1_048_576,
+  overloadTimeoutMs: 10_000,
+};
+
+/** Reads overrides from the environment, falling back to the defaults */
+export function resolveSendBufferLimits(env: Record<string, string | undefined>): SendBufferLimits {
+  const read = (name: string, fallback: number): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`${name} must be a positive number, got "${raw}"`);
+    }
+    return value;
+  };
+  return {
+    maxBufferedBytes: read(
+      'SYNAPSE_WS_MAX_BUFFERED_BYTES',
+      DEFAULT_SEND_BUFFER_LIMITS.maxBufferedBytes,
+    ),
+    overloadTimeoutMs: read(
+      'SYNAPSE_WS_OVERLOAD_TIMEOUT_MS',
+      DEFAULT_SEND_BUFFER_LIMITS.overloadTimeoutMs,
+    ),
+  };
+}
+
+// ─── Send Buffer Monitor ──────────────────────────────────────────────────────
+
+export interface SendBufferHandlers {
+  /** The buffer fell back under the limit */
+  onDrained: () => void;
+  /** The buffer stayed over the limit for overloadTimeoutMs */
+  onOverloaded: (bufferedBytes: number, overloadedMs: number) => void;
+}
+
+/**
+ * Watches one socket's outgoing buffer. `congested()` is checked before each
+ * skippable send; once it reports true, the buffer is polled until it
+ * drains (`onDrained`) or stays full past the timeout (`onOverloaded`),
+ * after which polling stops.
+ */
+export class SendBufferMonitor {
+  private overloadedSince: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly limits: SendBufferLimits,
+    private readonly bufferedAmount: () => number,
+    private readonly handlers: SendBufferHandlers,
+    private readonly pollMs = 50,
+    private readonly now: () => number = daemonNow,
+  ) {}
+
+  /** Stays true until a poll sees the buffer drain, so the catch-up goes out before new updates */
+  congested(): boolean {
+    if (this.bufferedAmount() <= this.limits.maxBufferedBytes) return this.overloadedSince !== null;
+    if (this.overloadedSince === null) {
+      this.overloadedSince = this.now();
+      this.timer = setInterval(() => this.poll(), this.pollMs);
+    }
+    return true;
+  }
+
+  stop(): void {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.overloadedSince = null;
+  }
+
+  private poll(): void {
+    if (this.overloadedSince === null) return;
+    const buffered = this.bufferedAmount();
+    if (buffered <= this.limits.maxBufferedBytes) {
+      this.stop();
+      this.handlers.onDrained();
+      return;
+    }
+    const overloadedMs = this.now() - this.overloadedSince;
+    if (overloadedMs >= this.limits.overloadTimeoutMs) {
+      this.stop();
+      this.handlers.onOverloaded(buffered, overloadedMs);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_BINDING_PROFILE } from '@synapse/hardware-events';
+import { loadBindingProfile } from './bindings';
+
+describe('loadBindingProfile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-bindings-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the default profile when no path is configured', () => {
+    expect(loadBindingProfile(undefined)).toBe(DEFAULT_BINDING_PROFILE);
+  });
+
+  it('loads a valid JSON profile', () => {
+    const path = join(dir, 'bindings.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        name: 'swapped-dials',
+        bindings: [
+          {
+            deviceId: 'MX_CREATIVE_CONSOLE',
+            componentId: 'DIAL_A',
+            eventType: 'ROTATE',
+            action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+          },
+        ],
+      }),
+    );
+
+    const profile = loadBindingProfile(path);
+    expect(profile.name).toBe('swapped-dials');
+    expect(profile.bindings[0]?.action).toBe('SYNAPSE_DIAL_CONTEXT_WINDOW');
+  });
+
+  it('throws on a profile that fails validation', () => {
+    const path = join(dir, 'bindings.json');
+    writeFileSync(path, JSON.stringify({ name: 'bad', bindings: [{ deviceId: 'MX_KEYS' }] }));
+    expect(() => loadBindingProfile(path)).toThrow(/Invalid binding profile/);
+  });
+
+  it('throws on unreadable or malformed files', () => {
+    const path = join(dir, 'bindings.json');
+    writeFileSync(path, '{ not json');
+    expect(() => loadBindingProfile(path)).toThrow(/Failed to read binding profile/);
+    expect(() => loadBindingProfile(join(dir, 'missing.json'))).toThrow(
+      /Failed to read binding profile/,
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import {
+  BindingProfileSchema,
+  DEFAULT_BINDING_PROFILE,
+  type BindingProfile,
+} from '@synapse/hardware-events';
+import { readJsonConfig } from './config.js';
+
+// ─── Binding Profile Loader ───────────────────────────────────────────────────
+
+/**
+ * Loads and validates a JSON binding profile from disk.
+ * Falls back to the built-in default profile when no path is given.
+ * Throws if the file cannot be read or fails schema validation, so a
+ * misconfigured daemon refuses to start instead of silently using defaults.
+ */
+export function loadBindingProfile(path?: string): BindingProfile {
+  if (!path) return DEFAULT_BINDING_PROFILE;
+  return readJsonConfig(path, BindingProfileSchema, 'binding profile');
+}
@@ -0,0 +1,39 @@
+import { ClockSync } from './clockSync';
+
+describe('ClockSync', () => {
+  it('has no estimate before the first sample', () => {
+    const clock = new ClockSync();
+    expect(clock.estimate()).toBeNull();
+    expect(clock.toDaemonTime(1_000)).toBeNull();
+  });
+
+  it('estimates the offset from a symmetric round trip', () => {
+    const clock = new ClockSync();
+    // Client runs 250ms ahead; 10ms each way
+    expect(clock.addSample(1_000, 1_260, 1_020)).toEqual({ offsetMs: 250, rttMs: 20 });
+    expect(clock.toDaemonTime(1_300)).toBe(1_050);
+  });
+
+  it('uses the sample with the smallest round trip', () => {
+    const clock = new ClockSync();
+    clock.addSample(1_000, 1_300, 1_100);
+    clock.addSample(2_000, 2_252, 2_004);
+    clock.addSample(3_000, 3_290, 3_060);
+    expect(clock.estimate()).toEqual({ offsetMs: 250, rttMs: 4 });
+  });
+
+  it('only keeps the most recent samples', () => {
+    const clock = new ClockSync(2);
+    clock.addSample(1_000, 1_250, 1_002);
+    clock.addSample(2_000, 2_100, 2_010);
+    clock.addSample(3_000, 3_100, 3_010);
+    expect(clock.estimate()?.offsetMs).toBe(95);
+  });
+
+  it('forgets samples on reset', () => {
+    const clock = new ClockSync();
+    clock.addSample(1_000, 1_250, 1_002);
+    clock.reset();
+    expect(clock.estimate()).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { performance } from 'perf_hooks';
+
+// ─── Clock Offset Estimation ──────────────────────────────────────────────────
+
+/** High-resolution daemon wall-clock time in epoch milliseconds */
+export function daemonNow(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export interface ClockEstimate {
+  /** Client clock minus daemon clock */
+  offsetMs: number;
+  /** Round trip of the PING/PONG the estimate came from */
+  rttMs: number;
+}
+
+/**
+ * Estimates a client's clock offset from PING/PONG round trips.
+ *
+ * Each sample assumes the PONG was timestamped halfway through the round
+ * trip; the sample with the smallest RTT among the most recent `maxSamples`
+ * bounds that assumption's error best, so it is used as the estimate.
+ */
+export class ClockSync {
+  private samples: ClockEstimate[] = [];
+
+  constructor(private readonly maxSamples = 8) {}
+
+  /**
+   * @param sentAt daemon time the PING was sent
+   * @param clientTime client time in the PONG
+   * @param receivedAt daemon time the PONG arrived
+   */
+  addSample(sentAt: number, clientTime: number, receivedAt: number): ClockEstimate {
+    const rttMs = Math.max(0, receivedAt - sentAt);
+    const sample = { offsetMs: clientTime - (sentAt + receivedAt) / 2, rttMs };
+    this.samples = [...this.samples, sample].slice(-this.maxSamples);
+    return sample;
+  }
+
+  estimate(): ClockEstimate | null {
+    return this.samples.reduce<ClockEstimate | null>(
+      (best, sample) => (best === null || sample.rttMs < best.rttMs ? sample : best),
+      null,
+    );
+  }
+
+  /** Converts a client timestamp to daemon time; null until a sample exists */
+  toDaemonTime(clientTimestamp: number): number | null {
+    const estimate = this.estimate();
+    return estimate ? clientTimestamp - estimate.offsetMs : null;
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+}
@@ -0,0 +1,59 @@
+import { ClutchArbiter, resolveArbitrationPolicy } from './clutchArbiter';
+
+const mouseA = { sessionId: 'session-a', deviceId: 'mx-master-4' };
+const mouseB = { sessionId: 'session-b', deviceId: 'mx-master-4' };
+const secondMouseA = { sessionId: 'session-a', deviceId: 'mx-anywhere-3' };
+
+describe('ClutchArbiter', () => {
+  it('FIRST_WINS: only the owning device releases the clutch', () => {
+    const arbiter = new ClutchArbiter('FIRST_WINS', () => 1_000);
+    expect(arbiter.engage(mouseA)).toEqual({ action: 'ENGAGE' });
+    expect(arbiter.owner).toEqual({ ...mouseA, since: 1_000 });
+
+    expect(arbiter.engage(mouseB)).toMatchObject({ action: 'IGNORE' });
+    expect(arbiter.release(mouseB)).toMatchObject({ action: 'IGNORE' });
+    // Same session, different device
+    expect(arbiter.release(secondMouseA)).toMatchObject({ action: 'IGNORE' });
+
+    expect(arbiter.release(mouseA)).toEqual({ action: 'RELEASE' });
+    expect(arbiter.owner).toBeNull();
+  });
+
+  it('LAST_WINS: a later engage takes ownership over', () => {
+    const arbiter = new ClutchArbiter('LAST_WINS');
+    arbiter.engage(mouseA);
+    expect(arbiter.engage(mouseB)).toMatchObject({
+      action: 'TRANSFER',
+      previous: { sessionId: 'session-a' },
+    });
+    expect(arbiter.release(mouseA)).toMatchObject({ action: 'IGNORE' });
+    expect(arbiter.release(mouseB)).toEqual({ action: 'RELEASE' });
+  });
+
+  it('ANY_RELEASE_WINS: any device releases, but engage stays with the first', () => {
+    const arbiter = new ClutchArbiter('ANY_RELEASE_WINS');
+    arbiter.engage(mouseA);
+    expect(arbiter.engage(mouseB)).toMatchObject({ action: 'IGNORE' });
+    expect(arbiter.release(mouseB)).toEqual({ action: 'RELEASE' });
+    expect(arbiter.owner).toBeNull();
+  });
+
+  it('tracks ownership per session until cleared', () => {
+    const arbiter = new ClutchArbiter('FIRST_WINS');
+    arbiter.engage(secondMouseA);
+    expect(arbiter.isOwnedBySession('session-a')).toBe(true);
+    expect(arbiter.isOwnedBySession('session-b')).toBe(false);
+
+    arbiter.clear();
+    expect(arbiter.isOwnedBySession('session-a')).toBe(false);
+    expect(arbiter.engage(mouseB)).toEqual({ action: 'ENGAGE' });
+  });
+});
+
+describe('resolveArbitrationPolicy', () => {
+  it('defaults to FIRST_WINS and rejects unknown policies', () => {
+    expect(resolveArbitrationPolicy(undefined)).toBe('FIRST_WINS');
+    expect(resolveArbitrationPolicy('LAST_WINS')).toBe('LAST_WINS');
+    expect(() => resolveArbitrationPolicy('random')).toThrow(/Unknown arbitration policy/);
+  });
+});
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+
+// ─── Clutch Ownership ─────────────────────────────────────────────────────────
+
+/**
+ * Who may engage and release the clutch when several plugins or devices are
+ * connected:
+ * - FIRST_WINS: the first engage owns the clutch; only the owner releases it
+ * - LAST_WINS: a later engage from another device takes ownership over; only
+ *   the current owner releases it
+ * - ANY_RELEASE_WINS: the first engage owns the clutch, but a release from any
+ *   device releases it
+ */
+export const ArbitrationPolicySchema = z.enum(['FIRST_WINS', 'LAST_WINS', 'ANY_RELEASE_WINS']);
+export type ArbitrationPolicy = z.infer<typeof ArbitrationPolicySchema>;
+
+export function resolveArbitrationPolicy(configured?: string): ArbitrationPolicy {
+  if (configured === undefined || configured === '') return 'FIRST_WINS';
+  const parsed = ArbitrationPolicySchema.safeParse(configured);
+  if (!parsed.success) {
+    throw new Error(
+      `Unknown arbitration policy "${configured}", expected one of ` +
+        ArbitrationPolicySchema.options.join(', '),
+    );
+  }
+  return parsed.data;
+}
+
+/** A device on a plugin session */
+export interface ClutchClaimant {
+  sessionId: string;
+  deviceId: string;
+}
+
+export interface ClutchOwner extends ClutchClaimant {
+  /** Epoch ms the claimant took ownership */
+  since: number;
+}
+
+export type ClutchDecision =
+  /** Engage the clutch; the claimant now owns it */
+  | { action: 'ENGAGE' }
+  /** Clutch stays engaged; ownership moved to the claimant */
+  | { action: 'TRANSFER'; previous: ClutchOwner }
+  /** Release the clutch */
+  | { action: 'RELEASE' }
+  /** Drop the event; the clutch is unchanged */
+  | { action: 'IGNORE'; reason: string };
+
+function isOwner(owner: ClutchOwner, claimant: ClutchClaimant): boolean {
+  return owner.sessionId === claimant.sessionId && owner.deviceId === claimant.deviceId;
+}
+
+/**
+ * Tracks which plugin session and device owns the clutch and decides, per
+ * policy, whether an engage or release from a given device takes effect.
+ * The daemon applies the decision and calls `clear()` whenever the clutch is
+ * released by any path.
+ */
+export class ClutchArbiter {
+  private currentOwner: ClutchOwner | null = null;
+
+  constructor(
+    readonly policy: ArbitrationPolicy,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get owner(): ClutchOwner | null {
+    return this.currentOwner ? { ...this.currentOwner } : null;
+  }
+
+  engage(claimant: ClutchClaimant): ClutchDecision {
+    const owner = this.currentOwner;
+    if (!owner) {
+      this.currentOwner = { ...claimant, since: this.now() };
+      return { action: 'ENGAGE' };
+    }
+    if (isOwner(owner, claimant)) {
+      return { action: 'IGNORE', reason: 'claimant already owns the clutch' };
+    }
+    if (this.policy === 'LAST_WINS') {
+      this.currentOwner = { ...claimant, since: this.now() };
+      return { action: 'TRANSFER', previous: owner };
+    }
+    return { action: 'IGNORE', reason: 'clutch is owned by another device' };
+  }
+
+  release(claimant: ClutchClaimant): ClutchDecision {
+    const owner = this.currentOwner;
+    if (owner && !isOwner(owner, claimant) && this.policy !== 'ANY_RELEASE_WINS') {
+      return { action: 'IGNORE', reason: 'clutch is owned by another device' };
+    }
+    this.currentOwner = null;
+    return { action: 'RELEASE' };
+  }
+
+  /** True if any device on `sessionId` owns the clutch */
+  isOwnedBySession(sessionId: string): boolean {
+    return this.currentOwner?.sessionId === sessionId;
+  }
+
+  clear(): void {
+    this.currentOwner = null;
+  }
+}
@@ -0,0 +1,44 @@
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { z } from 'zod';
+
+// ─── JSON Config Files ────────────────────────────────────────────────────────
+
+/**
+ * Reads a JSON file and validates it against a schema.
+ * Throws a descriptive error (prefixed with `label`) if the file cannot be
+ * read, is not JSON, or fails validation.
+ */
+export function readJsonConfig<S extends z.ZodTypeAny>(
+  path: string,
+  schema: S,
+  label: string,
+): z.output<S> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+  } catch (err) {
+    throw new Error(`Failed to read ${label} ${path}: ${(err as Error).message}`);
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${label} ${path}: ${issues}`);
+  }
+  return result.data as z.output<S>;
+}
+
+/**
+ * Writes `value` as pretty-printed JSON by writing a sibling temp file and
+ * renaming it over `path`, so readers never see a half-written file.
+ */
+export async function writeJsonAtomic(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+  await rename(tmpPath, path);
+}
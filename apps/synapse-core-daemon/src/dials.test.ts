@@ -0,0 +1,48 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { COMPUTE_MIX_DIAL, CONTEXT_WINDOW_DIAL } from '@synapse/symbios-connector';
+import { loadDialProfiles } from './dials';
+
+describe('loadDialProfiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-dials-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the built-in profiles when no path is configured', () => {
+    expect(loadDialProfiles(undefined)).toEqual({
+      computeMix: COMPUTE_MIX_DIAL,
+      contextWindow: CONTEXT_WINDOW_DIAL,
+    });
+  });
+
+  it('merges overrides onto the built-in profiles', () => {
+    const path = join(dir, 'dials.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        contextWindow: { detents: [48_000], acceleration: { curve: 'quadratic' } },
+      }),
+    );
+
+    const profiles = loadDialProfiles(path);
+    expect(profiles.computeMix).toEqual(COMPUTE_MIX_DIAL);
+    expect(profiles.contextWindow.detents).toEqual([48_000]);
+    expect(profiles.contextWindow.acceleration.curve).toBe('quadratic');
+    expect(profiles.contextWindow.acceleration.maxMultiplier).toBe(
+      CONTEXT_WINDOW_DIAL.acceleration.maxMultiplier,
+    );
+  });
+
+  it('throws on invalid overrides', () => {
+    const path = join(dir, 'dials.json');
+    writeFileSync(path, JSON.stringify({ computeMix: { acceleration: { curve: 'cubic' } } }));
+    expect(() => loadDialProfiles(path)).toThrow(/Invalid dial settings/);
+  });
+});
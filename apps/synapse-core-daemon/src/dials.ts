@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import {
+  COMPUTE_MIX_DIAL,
+  CONTEXT_WINDOW_DIAL,
+  DialProfileOverrideSchema,
+  mergeDialProfile,
+  type DialProfile,
+} from '@synapse/symbios-connector';
+import { readJsonConfig } from './config.js';
+
+// ─── Dial Settings ────────────────────────────────────────────────────────────
+
+export const DialSettingsSchema = z.object({
+  computeMix: DialProfileOverrideSchema.optional(),
+  contextWindow: DialProfileOverrideSchema.optional(),
+});
+
+export interface DialProfiles {
+  computeMix: DialProfile;
+  contextWindow: DialProfile;
+}
+
+/**
+ * Loads dial acceleration/detent overrides from a JSON file and merges them
+ * onto the built-in dial profiles. Uses the built-ins when no path is given.
+ */
+export function loadDialProfiles(path?: string): DialProfiles {
+  const settings = path ? readJsonConfig(path, DialSettingsSchema, 'dial settings') : {};
+  try {
+    return {
+      computeMix: mergeDialProfile(COMPUTE_MIX_DIAL, settings.computeMix),
+      contextWindow: mergeDialProfile(CONTEXT_WINDOW_DIAL, settings.contextWindow),
+    };
+  } catch (err) {
+    throw new Error(`Invalid dial settings ${path ?? ''}: ${(err as Error).message}`);
+  }
+}
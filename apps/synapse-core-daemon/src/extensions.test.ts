@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import pino from 'pino';
+import type { LogiHardwareEvent } from '@synapse/hardware-events';
+import { MockKernelMixer } from '@synapse/symbios-connector';
+import { MockUiExecutorBridge } from '@synapse/ui-executor-bridge';
+import { MockVoicePipeline } from '@synapse/voice-pipeline';
+import {
+  ExtensionRegistry,
+  defineExtension,
+  loadExtensions,
+  type ExtensionContext,
+} from './extensions';
+import { SynapseMachine } from './stateMachine';
+
+const event: LogiHardwareEvent = {
+  timestamp: 1_700_000_000_000,
+  deviceId: 'MX_CREATIVE_CONSOLE',
+  componentId: 'KEYPAD',
+  eventType: 'PRESS',
+  value: 9,
+};
+
+describe('ExtensionRegistry', () => {
+  let context: ExtensionContext;
+  let recordings: string[];
+
+  beforeEach(() => {
+    recordings = [];
+    context = {
+      machine: new SynapseMachine(),
+      kernelMixer: new MockKernelMixer(),
+      voicePipeline: new MockVoicePipeline(),
+      uiBridge: new MockUiExecutorBridge(),
+      logger: pino({ level: 'silent' }),
+    };
+  });
+
+  const recordingExtension = defineExtension({
+    name: 'screen-recorder',
+    register({ z, registerAction }) {
+      registerAction({
+        type: 'EXT_TOGGLE_RECORDING',
+        payload: z.object({ quality: z.enum(['low', 'high']).default('high') }),
+        states: ['IDLE', 'CLUTCH_ENGAGED'],
+        handler: (_context, { payload }) => {
+          recordings.push(payload.quality);
+        },
+      });
+    },
+  });
+
+  it('parses the payload and runs the handler', async () => {
+    const registry = new ExtensionRegistry();
+    registry.load(recordingExtension);
+
+    expect(registry.list()).toEqual([
+      { type: 'EXT_TOGGLE_RECORDING', extension: 'screen-recorder' },
+    ]);
+    await expect(registry.dispatch('EXT_TOGGLE_RECORDING', event, {}, context)).resolves.toEqual({
+      status: 'HANDLED',
+      extension: 'screen-recorder',
+    });
+    expect(recordings).toEqual(['high']);
+  });
+
+  it('rejects invalid payloads and unknown actions without running anything', async () => {
+    const registry = new ExtensionRegistry();
+    registry.load(recordingExtension);
+
+    const outcome = await registry.dispatch(
+      'EXT_TOGGLE_RECORDING',
+      event,
+      { quality: 'ultra' },
+      context,
+    );
+    expect(outcome.status).toBe('INVALID_PAYLOAD');
+    expect(await registry.dispatch('EXT_MISSING', event, {}, context)).toEqual({
+      status: 'UNKNOWN_ACTION',
+    });
+    expect(recordings).toEqual([]);
+  });
+
+  it('applies state and custom guards', async () => {
+    const registry = new ExtensionRegistry();
+    registry.load(recordingExtension);
+    let allowed = false;
+    registry.load({
+      name: 'guarded',
+      register: ({ registerAction }) =>
+        registerAction({ type: 'EXT_GUARDED', guard: () => allowed, handler: () => {} }),
+    });
+
+    context.machine.send({ type: 'CLUTCH_ENGAGE' });
+    context.machine.send({ type: 'VOICE_READY' });
+    expect(await registry.dispatch('EXT_TOGGLE_RECORDING', event, {}, context)).toEqual({
+      status: 'GUARDED',
+      extension: 'screen-recorder',
+      state: 'VOICE_ACTIVE',
+    });
+    expect((await registry.dispatch('EXT_GUARDED', event, undefined, context)).status).toBe(
+      'GUARDED',
+    );
+    allowed = true;
+    expect((await registry.dispatch('EXT_GUARDED', event, undefined, context)).status).toBe(
+      'HANDLED',
+    );
+  });
+
+  it('refuses malformed and duplicate actions', () => {
+    const registry = new ExtensionRegistry();
+    registry.load(recordingExtension);
+
+    expect(() => registry.load(recordingExtension)).toThrow(
+      /already registered by screen-recorder/,
+    );
+    expect(() =>
+      registry.load({
+        name: 'bad-type',
+        register: ({ registerAction }) =>
+          registerAction({ type: 'SYNAPSE_CLUTCH_ENGAGE', handler: () => {} }),
+      }),
+    ).toThrow(/invalid action type/);
+  });
+});
+
+describe('loadExtensions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-extensions-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads CommonJS extensions in name order and skips other files', () => {
+    const extension = (name: string, type: string): string =>
+      `module.exports = { name: '${name}', register(api) {` +
+      ` api.registerAction({ type: '${type}', handler() {} }); } };\n`;
+    writeFileSync(join(dir, 'b-lights.cjs'), extension('lights', 'EXT_LIGHTS'));
+    writeFileSync(join(dir, 'a-recorder.js'), extension('recorder', 'EXT_RECORD'));
+    writeFileSync(join(dir, 'README.md'), '# not an extension\n');
+
+    const registry = new ExtensionRegistry();
+    expect(loadExtensions(dir, registry)).toEqual(['recorder', 'lights']);
+    expect(registry.has('EXT_LIGHTS')).toBe(true);
+  });
+
+  it('loads nothing from a missing directory and names files that fail to load', () => {
+    const registry = new ExtensionRegistry();
+    expect(loadExtensions(join(dir, 'missing'), registry)).toEqual([]);
+
+    writeFileSync(join(dir, 'broken.js'), 'throw new Error("boom");\n');
+    expect(() => loadExtensions(dir, registry)).toThrow(
+      /Failed to load extension .*broken\.js: boom/,
+    );
+  });
+});
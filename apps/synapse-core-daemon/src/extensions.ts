@@ -0,0 +1,195 @@
+import { existsSync, readdirSync } from 'fs';
+import { join, resolve } from 'path';
+import type { Logger } from 'pino';
+import { z } from 'zod';
+import {
+  ExtensionActionTypeSchema,
+  type ExtensionActionType,
+  type InputEvent,
+} from '@synapse/hardware-events';
+import type { IKernelMixer } from '@synapse/symbios-connector';
+import type { IUiExecutorBridge } from '@synapse/ui-executor-bridge';
+import type { IVoicePipeline } from '@synapse/voice-pipeline';
+import type { SynapseMachine, SynapseStateValue } from './stateMachine.js';
+
+// ─── Extension API ────────────────────────────────────────────────────────────
+
+/** What an extension action can reach in the daemon */
+export interface ExtensionContext {
+  machine: SynapseMachine;
+  kernelMixer: IKernelMixer;
+  voicePipeline: IVoicePipeline;
+  uiBridge: IUiExecutorBridge;
+  /** Child logger tagged with the action being run */
+  logger: Logger;
+}
+
+export interface ExtensionInvocation<P> {
+  /** Hardware event or gesture the action was bound to */
+  event: InputEvent;
+  /** Binding payload, parsed with the action's payload schema */
+  payload: P;
+}
+
+export interface ExtensionAction<P = unknown> {
+  type: ExtensionActionType;
+  /** Validates the binding payload; without one the handler gets it unparsed */
+  payload?: z.ZodType<P, z.ZodTypeDef, unknown>;
+  /** Machine states the action may run in; every state when omitted */
+  states?: readonly SynapseStateValue[];
+  /** Checked after `states`; returning false drops the event */
+  guard?: (context: ExtensionContext, payload: P) => boolean;
+  handler: (context: ExtensionContext, invocation: ExtensionInvocation<P>) => void | Promise<void>;
+}
+
+/** Handed to `register()`; `z` saves extensions outside the repo from resolving zod */
+export interface ExtensionApi {
+  z: typeof z;
+  registerAction<P>(action: ExtensionAction<P>): void;
+}
+
+/** Shape of an extension module's export */
+export interface SynapseExtension {
+  name: string;
+  register(api: ExtensionApi): void;
+}
+
+/** Identity helper that type-checks an extension written in TypeScript */
+export function defineExtension(extension: SynapseExtension): SynapseExtension {
+  return extension;
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+interface RegisteredAction {
+  extension: string;
+  action: ExtensionAction;
+}
+
+export type ExtensionOutcome =
+  | { status: 'HANDLED'; extension: string }
+  | { status: 'UNKNOWN_ACTION' }
+  | { status: 'INVALID_PAYLOAD'; extension: string; issues: z.ZodIssue[] }
+  | { status: 'GUARDED'; extension: string; state: SynapseStateValue };
+
+/**
+ * Extension actions by type. Registration throws on anything malformed or
+ * on a type registered twice, so a broken extension stops the daemon at
+ * startup rather than on the first key press.
+ */
+export class ExtensionRegistry {
+  private readonly actions = new Map<ExtensionActionType, RegisteredAction>();
+
+  /** Runs `extension.register()` and keeps the actions it registers */
+  load(extension: SynapseExtension): void {
+    if (typeof extension.name !== 'string' || extension.name === '') {
+      throw new Error('Extension name must be a non-empty string');
+    }
+    if (typeof extension.register !== 'function') {
+      throw new Error(`Extension ${extension.name} has no register() function`);
+    }
+    extension.register({
+      z,
+      registerAction: (action) => this.add(extension.name, action as ExtensionAction),
+    });
+  }
+
+  has(type: string): boolean {
+    return this.actions.has(type);
+  }
+
+  /** Registered action types with the extension that owns each */
+  list(): Array<{ type: ExtensionActionType; extension: string }> {
+    return [...this.actions].map(([type, { extension }]) => ({ type, extension }));
+  }
+
+  /**
+   * Runs the action bound as `type`: parses the payload, applies the state
+   * and custom guards, then awaits the handler. Handler errors propagate.
+   */
+  async dispatch(
+    type: string,
+    event: InputEvent,
+    payload: unknown,
+    context: ExtensionContext,
+  ): Promise<ExtensionOutcome> {
+    const registered = this.actions.get(type);
+    if (!registered) return { status: 'UNKNOWN_ACTION' };
+    const { extension, action } = registered;
+
+    let parsed = payload;
+    if (action.payload) {
+      const result = action.payload.safeParse(payload);
+      if (!result.success) {
+        return { status: 'INVALID_PAYLOAD', extension, issues: result.error.issues };
+      }
+      parsed = result.data;
+    }
+
+    const state = context.machine.getState();
+    if (
+      (action.states !== undefined && !action.states.includes(state)) ||
+      (action.guard !== undefined && !action.guard(context, parsed))
+    ) {
+      return { status: 'GUARDED', extension, state };
+    }
+
+    await action.handler(context, { event, payload: parsed });
+    return { status: 'HANDLED', extension };
+  }
+
+  private add(extension: string, action: ExtensionAction): void {
+    const type = ExtensionActionTypeSchema.safeParse(action.type);
+    if (!type.success) {
+      throw new Error(
+        `Extension ${extension} registered invalid action type ${JSON.stringify(action.type)}: ` +
+          type.error.issues.map((issue) => issue.message).join('; '),
+      );
+    }
+    if (typeof action.handler !== 'function') {
+      throw new Error(`Extension ${extension} action ${type.data} has no handler`);
+    }
+    const existing = this.actions.get(type.data);
+    if (existing) {
+      throw new Error(
+        `Extension ${extension} action ${type.data} is already registered by ${existing.extension}`,
+      );
+    }
+    this.actions.set(type.data, { extension, action });
+  }
+}
+
+// ─── Discovery ────────────────────────────────────────────────────────────────
+
+const EXTENSION_FILE = /\.c?js$/;
+
+/**
+ * Loads every `.js` / `.cjs` file in `dir` (in name order) as a CommonJS
+ * module exporting a SynapseExtension, as `module.exports` or `default`.
+ * A missing directory loads nothing. Returns the names of the extensions.
+ */
+export function loadExtensions(dir: string, registry: ExtensionRegistry): string[] {
+  if (!existsSync(dir)) return [];
+  const files = readdirSync(dir)
+    .filter((file) => EXTENSION_FILE.test(file))
+    .sort();
+
+  return files.map((file) => {
+    const path = resolve(join(dir, file));
+    let exported: unknown;
+    try {
+      exported = require(path) as unknown;
+    } catch (err) {
+      throw new Error(`Failed to load extension ${path}: ${(err as Error).message}`);
+    }
+    const extension =
+      typeof exported === 'object' && exported !== null && 'default' in exported
+        ? exported.default
+        : exported;
+    if (typeof extension !== 'object' || extension === null) {
+      throw new Error(`Extension ${path} does not export an extension object`);
+    }
+    registry.load(extension as SynapseExtension);
+    return (extension as SynapseExtension).name;
+  });
+}
@@ -0,0 +1,103 @@
+import { PROTOCOL_VERSION, type HelloMessage } from '@synapse/hardware-events';
+import { negotiateHandshake } from './handshake';
+
+function hello(overrides: Partial<HelloMessage> = {}): HelloMessage {
+  return {
+    type: 'HELLO',
+    protocolVersion: PROTOCOL_VERSION,
+    role: 'plugin',
+    features: ['HARDWARE_EVENTS', 'STATE_UPDATES'],
+    ...overrides,
+  };
+}
+
+describe('negotiateHandshake', () => {
+  it('accepts a client speaking the current version', () => {
+    expect(negotiateHandshake(hello())).toEqual({
+      ok: true,
+      protocolVersion: PROTOCOL_VERSION,
+      role: 'plugin',
+      features: ['HARDWARE_EVENTS', 'STATE_UPDATES'],
+      topics: ['STATE', 'KERNEL', 'TRANSCRIPTION', 'METRICS'],
+    });
+  });
+
+  it('downgrades a newer client that can fall back', () => {
+    const result = negotiateHandshake(
+      hello({ protocolVersion: PROTOCOL_VERSION + 1, minProtocolVersion: PROTOCOL_VERSION }),
+    );
+    expect(result).toMatchObject({ ok: true, protocolVersion: PROTOCOL_VERSION });
+  });
+
+  it('rejects a newer client that cannot fall back', () => {
+    const result = negotiateHandshake(hello({ protocolVersion: PROTOCOL_VERSION + 1 }));
+    expect(result).toMatchObject({ ok: false, code: 'UNSUPPORTED_PROTOCOL_VERSION' });
+  });
+
+  it('rejects plugins with the wrong token when one is configured', () => {
+    expect(negotiateHandshake(hello({ token: 'nope' }), 'secret')).toMatchObject({
+      ok: false,
+      code: 'INVALID_TOKEN',
+    });
+    expect(negotiateHandshake(hello({ token: 'secret' }), 'secret')).toMatchObject({ ok: true });
+  });
+
+  it('does not require a token from read-only roles', () => {
+    expect(negotiateHandshake(hello({ role: 'ui' }), 'secret')).toMatchObject({ ok: true });
+  });
+
+  it('only grants HARDWARE_EVENTS and APP_CONTEXT to plugins', () => {
+    expect(
+      negotiateHandshake(
+        hello({ role: 'ui', features: ['HARDWARE_EVENTS', 'STATE_UPDATES', 'APP_CONTEXT'] }),
+      ),
+    ).toMatchObject({
+      ok: true,
+      features: ['STATE_UPDATES'],
+    });
+  });
+
+  it('only grants COMMANDS to ui clients holding the token', () => {
+    const commands = hello({ role: 'ui', features: ['STATE_UPDATES', 'COMMANDS'] });
+    expect(negotiateHandshake(commands)).toMatchObject({
+      features: ['STATE_UPDATES', 'COMMANDS'],
+    });
+    expect(negotiateHandshake(commands, 'secret')).toMatchObject({
+      ok: true,
+      features: ['STATE_UPDATES'],
+    });
+    expect(negotiateHandshake({ ...commands, token: 'secret' }, 'secret')).toMatchObject({
+      features: ['STATE_UPDATES', 'COMMANDS'],
+    });
+    expect(negotiateHandshake({ ...commands, token: 'nope' }, 'secret')).toMatchObject({
+      ok: false,
+      code: 'INVALID_TOKEN',
+    });
+    expect(negotiateHandshake(hello({ features: ['COMMANDS'] }))).toMatchObject({ features: [] });
+  });
+
+  it('only grants HEARTBEAT to plugins', () => {
+    const heartbeat = hello({ features: ['HARDWARE_EVENTS', 'HEARTBEAT'] });
+    expect(negotiateHandshake(heartbeat)).toMatchObject({
+      features: ['HARDWARE_EVENTS', 'HEARTBEAT'],
+    });
+    expect(negotiateHandshake(hello({ role: 'ui', features: ['HEARTBEAT'] }))).toMatchObject({
+      features: [],
+    });
+  });
+
+  it('grants CLOCK_SYNC to every role', () => {
+    expect(negotiateHandshake(hello({ role: 'viewer', features: ['CLOCK_SYNC'] }))).toMatchObject({
+      ok: true,
+      features: ['CLOCK_SYNC'],
+    });
+  });
+
+  it('subscribes to the requested topics only with STATE_UPDATES', () => {
+    expect(negotiateHandshake(hello({ topics: ['STATE', 'STATE'] }))).toMatchObject({
+      topics: ['STATE'],
+    });
+    const noState = hello({ features: ['HARDWARE_EVENTS'], topics: ['KERNEL'] });
+    expect(negotiateHandshake(noState)).toMatchObject({ topics: [] });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  StateTopicSchema,
+  type ClientRole,
+  type HelloMessage,
+  type ProtocolErrorCode,
+  type ProtocolFeature,
+  type StateTopic,
+} from '@synapse/hardware-events';
+
+// ─── HELLO / WELCOME Negotiation ──────────────────────────────────────────────
+
+/** Features this daemon build implements */
+export const DAEMON_FEATURES: readonly ProtocolFeature[] = [
+  'HARDWARE_EVENTS',
+  'STATE_UPDATES',
+  'APP_CONTEXT',
+  'CLOCK_SYNC',
+  'COMMANDS',
+  'HEARTBEAT',
+  'STATE_DELTAS',
+];
+
+/** Features only granted to a given role */
+const ROLE_RESTRICTED_FEATURES: Partial<Record<ProtocolFeature, ClientRole>> = {
+  HARDWARE_EVENTS: 'plugin',
+  APP_CONTEXT: 'plugin',
+  COMMANDS: 'ui',
+  HEARTBEAT: 'plugin',
+};
+
+/** Features that change daemon state and so need the token when one is configured */
+const TOKEN_REQUIRED_FEATURES: readonly ProtocolFeature[] = ['COMMANDS'];
+
+export type HandshakeResult =
+  | {
+      ok: true;
+      protocolVersion: number;
+      role: ClientRole;
+      features: ProtocolFeature[];
+      /** State topics to send; empty without STATE_UPDATES */
+      topics: StateTopic[];
+    }
+  | { ok: false; code: ProtocolErrorCode; message: string };
+
+/**
+ * Negotiates a session from a client HELLO.
+ * Clients newer than the daemon are downgraded to PROTOCOL_VERSION if their
+ * `minProtocolVersion` allows it; otherwise, and for clients older than
+ * MIN_PROTOCOL_VERSION, the handshake is rejected.
+ */
+export function negotiateHandshake(hello: HelloMessage, configuredToken?: string): HandshakeResult {
+  const protocolVersion = Math.min(hello.protocolVersion, PROTOCOL_VERSION);
+  const clientMin = hello.minProtocolVersion ?? hello.protocolVersion;
+  if (protocolVersion < Math.max(clientMin, MIN_PROTOCOL_VERSION)) {
+    return {
+      ok: false,
+      code: 'UNSUPPORTED_PROTOCOL_VERSION',
+      message:
+        `Client speaks protocol ${clientMin}–${hello.protocolVersion}, ` +
+        `daemon supports ${MIN_PROTOCOL_VERSION}–${PROTOCOL_VERSION}`,
+    };
+  }
+
+  // Read-only roles may omit the token, but a wrong one is never silently ignored
+  const authorized = !configuredToken || hello.token === configuredToken;
+  if (!authorized && (hello.role === 'plugin' || hello.token !== undefined)) {
+    return { ok: false, code: 'INVALID_TOKEN', message: 'Invalid token' };
+  }
+
+  const features = [...new Set(hello.features)].filter((feature) => {
+    const requiredRole = ROLE_RESTRICTED_FEATURES[feature];
+    return (
+      DAEMON_FEATURES.includes(feature) &&
+      (!requiredRole || requiredRole === hello.role) &&
+      (authorized || !TOKEN_REQUIRED_FEATURES.includes(feature))
+    );
+  });
+
+  // Omitting topics subscribes to all of them, as clients did before topics existed
+  const topics = features.includes('STATE_UPDATES')
+    ? [...new Set(hello.topics ?? StateTopicSchema.options)]
+    : [];
+
+  return { ok: true, protocolVersion, role: hello.role, features, topics };
+}
@@ -0,0 +1,64 @@
+import { HeartbeatMonitor } from './heartbeat';
+
+describe('HeartbeatMonitor', () => {
+  let now: number;
+  let timeouts: number[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    timeouts = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number): void => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  const create = (): HeartbeatMonitor =>
+    new HeartbeatMonitor(
+      3_000,
+      (silentMs) => timeouts.push(silentMs),
+      () => now,
+    );
+
+  it('times out once when no beat arrives within the timeout', () => {
+    const monitor = create();
+    monitor.beat();
+    advance(2_999);
+    expect(timeouts).toEqual([]);
+
+    advance(1);
+    expect(timeouts).toEqual([3_000]);
+    expect(monitor.running).toBe(false);
+
+    advance(10_000);
+    expect(timeouts).toHaveLength(1);
+  });
+
+  it('pushes the deadline out on every beat', () => {
+    const monitor = create();
+    monitor.beat();
+    for (let i = 0; i < 5; i++) {
+      advance(2_000);
+      monitor.beat();
+    }
+    expect(timeouts).toEqual([]);
+
+    advance(3_000);
+    expect(timeouts).toEqual([3_000]);
+  });
+
+  it('never fires once stopped', () => {
+    const monitor = create();
+    monitor.beat();
+    monitor.stop();
+    advance(5_000);
+    expect(timeouts).toEqual([]);
+    expect(monitor.running).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { daemonNow } from './clockSync.js';
+
+// ─── Heartbeat Deadline ───────────────────────────────────────────────────────
+
+/**
+ * Detects a peer that has gone silent without closing its socket: a hung
+ * process or a network that dropped without a FIN never fires `close`.
+ *
+ * Every `beat()` pushes the deadline `timeoutMs` out; if it passes first,
+ * `onTimeout` is called once with how long the peer has been silent and the
+ * monitor stops.
+ */
+export class HeartbeatMonitor {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastBeatAt = 0;
+
+  constructor(
+    private readonly timeoutMs: number,
+    private readonly onTimeout: (silentMs: number) => void,
+    private readonly now: () => number = daemonNow,
+  ) {}
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Records a sign of life, starting the monitor if it is not running */
+  beat(): void {
+    this.lastBeatAt = this.now();
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onTimeout(this.now() - this.lastBeatAt);
+    }, this.timeoutMs);
+  }
+
+  stop(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
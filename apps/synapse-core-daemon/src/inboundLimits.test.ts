@@ -0,0 +1,154 @@
+import type { LogiHardwareEvent } from '@synapse/hardware-events';
+import {
+  DEFAULT_INBOUND_LIMITS,
+  InboundLimiter,
+  InboundQueue,
+  TokenBucket,
+  classifyInboundEvent,
+  resolveInboundLimits,
+} from './inboundLimits';
+
+const dial: LogiHardwareEvent = {
+  timestamp: 1_700_000_000_000,
+  deviceId: 'MX_CREATIVE_CONSOLE',
+  componentId: 'DIAL_A',
+  eventType: 'ROTATE',
+  value: 1,
+};
+
+describe('classifyInboundEvent', () => {
+  it('classes events by their binding, then by event type', () => {
+    expect(classifyInboundEvent({ ...dial, eventType: 'PRESS' }, 'SYNAPSE_CLUTCH_ENGAGE')).toBe(
+      'CLUTCH',
+    );
+    expect(classifyInboundEvent(dial, 'SYNAPSE_DIAL_COMPUTE_MIX')).toBe('ROTATE');
+    expect(classifyInboundEvent({ ...dial, eventType: 'TAP' }, undefined)).toBe('BUTTON');
+  });
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst, then refills at the configured rate', () => {
+    let now = 0;
+    const bucket = new TokenBucket(10, 2, () => now);
+    expect(bucket.take()).toBe(0);
+    expect(bucket.take()).toBe(0);
+    expect(bucket.take()).toBe(100);
+
+    now = 100;
+    expect(bucket.take()).toBe(0);
+    expect(bucket.take()).toBe(100);
+  });
+});
+
+describe('InboundLimiter', () => {
+  const limits = { ratePerSecond: { CLUTCH: 2, ROTATE: 0, BUTTON: 1 }, maxQueueDepth: 3 };
+
+  it('limits each class separately and reports only the first refusal of a run', () => {
+    let now = 0;
+    const limiter = new InboundLimiter(limits, () => now);
+
+    expect(limiter.admit('BUTTON', 0)).toEqual({ ok: true });
+    expect(limiter.admit('BUTTON', 0)).toEqual({
+      ok: false,
+      code: 'RATE_LIMITED',
+      eventClass: 'BUTTON',
+      message: 'BUTTON events are limited to 1/s',
+      retryAfterMs: 1_000,
+      first: true,
+    });
+    expect(limiter.admit('BUTTON', 0)).toMatchObject({ ok: false, first: false });
+    expect(limiter.admit('CLUTCH', 0)).toEqual({ ok: true });
+
+    now = 1_000;
+    expect(limiter.admit('BUTTON', 0)).toEqual({ ok: true });
+    expect(limiter.admit('BUTTON', 0)).toMatchObject({ ok: false, first: true });
+  });
+
+  it('refuses everything while the queue is full; a rate of 0 is unlimited', () => {
+    const limiter = new InboundLimiter(limits);
+    for (let i = 0; i < 1_000; i++) expect(limiter.admit('ROTATE', 2).ok).toBe(true);
+    expect(limiter.admit('ROTATE', 3)).toMatchObject({ ok: false, code: 'QUEUE_FULL' });
+  });
+});
+
+describe('InboundQueue', () => {
+  it('runs tasks one at a time and lets the fast lane overtake rotations only', async () => {
+    const order: string[] = [];
+    const queue = new InboundQueue(jest.fn());
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    queue.push(task('press'));
+    queue.push(task('rotate-1'), true);
+    queue.push(task('rotate-2'), true);
+    expect(queue.depth).toBe(3);
+    expect(queue.pushAhead(task('release'))).toBe(2);
+
+    await queue.idle();
+    expect(order).toEqual(['press', 'release', 'rotate-1', 'rotate-2']);
+    expect(queue.depth).toBe(0);
+  });
+
+  it('keeps at most one fast-lane task waiting, however many are pushed', async () => {
+    const queue = new InboundQueue(jest.fn());
+    const releases = jest.fn();
+    let unblock = (): void => undefined;
+    queue.push(() => new Promise<void>((resolve) => (unblock = resolve)));
+    await Promise.resolve();
+
+    expect(queue.pushAhead(releases)).toBe(0);
+    for (let i = 0; i < 1_000; i++) expect(queue.pushAhead(releases)).toBeNull();
+    expect(queue.depth).toBe(1);
+
+    unblock();
+    await queue.idle();
+    expect(releases).toHaveBeenCalledTimes(1);
+    expect(queue.busy).toBe(false);
+  });
+
+  it('replaces a waiting task pushed under the same key with the latest one', async () => {
+    const order: string[] = [];
+    const queue = new InboundQueue(jest.fn());
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    queue.push(task('press'));
+    expect(queue.pushLatest('app', task('app-1'))).toBe(true);
+    queue.push(task('rotate'));
+    for (let i = 2; i <= 100; i++) queue.pushLatest('app', task(`app-${i}`));
+    expect(queue.depth).toBe(3);
+
+    await queue.idle();
+    expect(order).toEqual(['press', 'app-100', 'rotate']);
+  });
+
+  it('reports failing tasks and keeps going', async () => {
+    const onError = jest.fn();
+    const queue = new InboundQueue(onError);
+    const failure = new Error('bridge unreachable');
+    const ran = jest.fn();
+
+    queue.push(() => Promise.reject(failure));
+    queue.push(ran);
+    await queue.idle();
+    expect(onError).toHaveBeenCalledWith(failure);
+    expect(ran).toHaveBeenCalled();
+  });
+});
+
+describe('resolveInboundLimits', () => {
+  it('reads overrides and rejects invalid values', () => {
+    expect(resolveInboundLimits({})).toEqual(DEFAULT_INBOUND_LIMITS);
+    expect(
+      resolveInboundLimits({ SYNAPSE_RATE_LIMIT_ROTATE: '0', SYNAPSE_INBOUND_QUEUE_MAX: '64' }),
+    ).toEqual({
+      ratePerSecond: { ...DEFAULT_INBOUND_LIMITS.ratePerSecond, ROTATE: 0 },
+      maxQueueDepth: 64,
+    });
+    expect(() => resolveInboundLimits({ SYNAPSE_RATE_LIMIT_BUTTON: '2.5' })).toThrow(
+      /SYNAPSE_RATE_LIMIT_BUTTON/,
+    );
+  });
+});
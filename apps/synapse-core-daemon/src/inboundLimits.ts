@@ -0,0 +1,248 @@
+import type { LogiHardwareEvent, SynapseAction } from '@synapse/hardware-events';
+import { daemonNow } from './clockSync.js';
+
+// ─── Event Classes ────────────────────────────────────────────────────────────
+
+export type InboundEventClass = 'CLUTCH' | 'ROTATE' | 'BUTTON';
+
+const EVENT_CLASSES: readonly InboundEventClass[] = ['CLUTCH', 'ROTATE', 'BUTTON'];
+
+/** Rate-limit class of a hardware event, from the action it is bound to */
+export function classifyInboundEvent(
+  event: LogiHardwareEvent,
+  action: SynapseAction | undefined,
+): InboundEventClass {
+  if (action === 'SYNAPSE_CLUTCH_ENGAGE' || action === 'SYNAPSE_CLUTCH_RELEASE') return 'CLUTCH';
+  return event.eventType === 'ROTATE' ? 'ROTATE' : 'BUTTON';
+}
+
+// ─── Limits ───────────────────────────────────────────────────────────────────
+
+export interface InboundLimits {
+  /** Sustained events per second per connection; bursts of one second's worth pass. 0 disables */
+  ratePerSecond: Record<InboundEventClass, number>;
+  /** Hardware events that may wait in a connection's queue before new ones are refused */
+  maxQueueDepth: number;
+}
+
+export const DEFAULT_INBOUND_LIMITS: InboundLimits = {
+  ratePerSecond: { CLUTCH: 20, ROTATE: 500, BUTTON: 50 },
+  maxQueueDepth: 256,
+};
+
+/** Reads overrides from the environment, falling back to the defaults */
+export function resolveInboundLimits(env: Record<string, string | undefined>): InboundLimits {
+  const read = (name: string, fallback: number): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+    }
+    return value;
+  };
+  const ratePerSecond = { ...DEFAULT_INBOUND_LIMITS.ratePerSecond };
+  for (const eventClass of EVENT_CLASSES) {
+    ratePerSecond[eventClass] = read(
+      `SYNAPSE_RATE_LIMIT_${eventClass}`,
+      DEFAULT_INBOUND_LIMITS.ratePerSecond[eventClass],
+    );
+  }
+  return {
+    ratePerSecond,
+    maxQueueDepth: read('SYNAPSE_INBOUND_QUEUE_MAX', DEFAULT_INBOUND_LIMITS.maxQueueDepth),
+  };
+}
+
+// ─── Token Bucket ─────────────────────────────────────────────────────────────
+
+/** Holds up to `capacity` tokens, refilled continuously at `ratePerSecond` */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number,
+    private readonly now: () => number = daemonNow,
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /** Takes a token; returns 0 on success, or how many ms until one is available */
+  take(): number {
+    const now = this.now();
+    const refilled = ((now - this.updatedAt) / 1_000) * this.ratePerSecond;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1_000);
+  }
+}
+
+// ─── Inbound Limiter ──────────────────────────────────────────────────────────
+
+export type InboundRefusalCode = 'RATE_LIMITED' | 'QUEUE_FULL';
+
+export type InboundVerdict =
+  | { ok: true }
+  | {
+      ok: false;
+      code: InboundRefusalCode;
+      eventClass: InboundEventClass;
+      message: string;
+      retryAfterMs?: number;
+      /** First refusal since this class was last admitted; only these need an answer */
+      first: boolean;
+    };
+
+/**
+ * Admits one connection's hardware events: each class has its own token
+ * bucket, and nothing is admitted while the queue is at its maximum depth.
+ * A flood is refused as a whole, so the client only needs to hear about the
+ * first refusal of each run.
+ */
+export class InboundLimiter {
+  private readonly buckets = new Map<InboundEventClass, TokenBucket>();
+  private readonly refusing = new Set<string>();
+
+  constructor(
+    private readonly limits: InboundLimits,
+    now: () => number = daemonNow,
+  ) {
+    for (const eventClass of EVENT_CLASSES) {
+      const rate = limits.ratePerSecond[eventClass];
+      if (rate > 0) this.buckets.set(eventClass, new TokenBucket(rate, rate, now));
+    }
+  }
+
+  /** @param queueDepth events already waiting in the connection's queue */
+  admit(eventClass: InboundEventClass, queueDepth: number): InboundVerdict {
+    if (queueDepth >= this.limits.maxQueueDepth) {
+      return this.refuse(
+        'QUEUE_FULL',
+        eventClass,
+        `Inbound queue is full (${this.limits.maxQueueDepth} events waiting)`,
+      );
+    }
+    const retryAfterMs = this.buckets.get(eventClass)?.take() ?? 0;
+    if (retryAfterMs > 0) {
+      const rate = this.limits.ratePerSecond[eventClass];
+      return this.refuse(
+        'RATE_LIMITED',
+        eventClass,
+        `${eventClass} events are limited to ${rate}/s`,
+        retryAfterMs,
+      );
+    }
+    this.refusing.delete(`QUEUE_FULL:${eventClass}`);
+    this.refusing.delete(`RATE_LIMITED:${eventClass}`);
+    return { ok: true };
+  }
+
+  private refuse(
+    code: InboundRefusalCode,
+    eventClass: InboundEventClass,
+    message: string,
+    retryAfterMs?: number,
+  ): InboundVerdict {
+    const key = `${code}:${eventClass}`;
+    const first = !this.refusing.has(key);
+    this.refusing.add(key);
+    return { ok: false, code, eventClass, message, retryAfterMs, first };
+  }
+}
+
+// ─── Inbound Queue ────────────────────────────────────────────────────────────
+
+interface QueuedTask {
+  run: () => unknown;
+  /** A fast-lane task may run before it */
+  overtakable: boolean;
+  /** Set for tasks that later ones with the same key replace; see pushLatest */
+  key?: string;
+}
+
+const FAST_LANE_KEY = 'fast-lane';
+
+/**
+ * Runs a connection's inbound work one task at a time, in arrival order.
+ * `pushAhead` is the fast lane for a clutch RELEASE: it overtakes the
+ * rotations waiting at the back of the queue, but never a press or command
+ * that could re-engage the clutch after it. Neither the fast lane nor
+ * `pushLatest` is limited by depth, so both keep at most one task waiting.
+ */
+export class InboundQueue {
+  private readonly waiting: QueuedTask[] = [];
+  private pumping: Promise<void> | null = null;
+
+  constructor(private readonly onError: (err: unknown) => void) {}
+
+  /** Tasks waiting to run, not counting the one running */
+  get depth(): number {
+    return this.waiting.length;
+  }
+
+  /** Whether a task is running or waiting */
+  get busy(): boolean {
+    return this.pumping !== null;
+  }
+
+  push(run: () => unknown, overtakable = false): void {
+    this.waiting.push({ run, overtakable });
+    this.pump();
+  }
+
+  /**
+   * Queues `run` ahead of the overtakable tasks at the back; returns how many
+   * it overtook, or null if a fast-lane task was already waiting and `run`
+   * was dropped in its favour
+   */
+  pushAhead(run: () => unknown): number | null {
+    if (this.waiting.some((task) => task.key === FAST_LANE_KEY)) return null;
+    let index = this.waiting.length;
+    while (index > 0 && this.waiting[index - 1]?.overtakable) index -= 1;
+    this.waiting.splice(index, 0, { run, overtakable: false, key: FAST_LANE_KEY });
+    this.pump();
+    return this.waiting.length - 1 - index;
+  }
+
+  /**
+   * Queues `run` unless a task queued under `key` is still waiting, in which
+   * case `run` replaces it in place; returns false if it replaced one
+   */
+  pushLatest(key: string, run: () => unknown): boolean {
+    const waiting = this.waiting.find((task) => task.key === key);
+    if (waiting) {
+      waiting.run = run;
+      return false;
+    }
+    this.waiting.push({ run, overtakable: false, key });
+    this.pump();
+    return true;
+  }
+
+  /** Resolves once every queued task, including ones queued meanwhile, has run */
+  idle(): Promise<void> {
+    return this.pumping ?? Promise.resolve();
+  }
+
+  private pump(): void {
+    this.pumping ??= (async () => {
+      // Tasks start on a later microtask, never inside push()
+      await Promise.resolve();
+      for (let task = this.waiting.shift(); task; task = this.waiting.shift()) {
+        try {
+          await task.run();
+        } catch (err) {
+          this.onError(err);
+        }
+      }
+      this.pumping = null;
+    })();
+  }
+}
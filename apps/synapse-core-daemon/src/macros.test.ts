@@ -0,0 +1,50 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_MACROS, type Macro } from '@synapse/hardware-events';
+import { MacroStore } from './macros';
+
+const focus: Macro = {
+  name: 'focus',
+  steps: [
+    { action: 'SWITCH_PERSONA', persona: 'CODER' },
+    { action: 'SET_COMPUTE_MIX', weight: 1 },
+  ],
+};
+
+describe('MacroStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-macros-'));
+    path = join(dir, 'macros.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts from the default macros when no file exists', () => {
+    expect(MacroStore.load(undefined).list()).toEqual(DEFAULT_MACROS);
+    expect(MacroStore.load(path).list()).toEqual(DEFAULT_MACROS);
+  });
+
+  it('writes edits through to the library file', async () => {
+    const store = MacroStore.load(path);
+    await store.save(focus);
+    expect(await store.remove('deep-research')).toBe(true);
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ macros: [focus] });
+    expect(MacroStore.load(path).get('focus')).toEqual(focus);
+  });
+
+  it('reports removing an unknown macro', async () => {
+    expect(await MacroStore.load(path).remove('nope')).toBe(false);
+  });
+
+  it('throws on an invalid library file', () => {
+    writeFileSync(path, JSON.stringify({ macros: [focus, focus] }));
+    expect(() => MacroStore.load(path)).toThrow(/Duplicate macro focus/);
+  });
+});
@@ -0,0 +1,85 @@
+import { existsSync } from 'fs';
+import { z } from 'zod';
+import { DEFAULT_MACROS, MacroSchema, type Macro } from '@synapse/hardware-events';
+import { readJsonConfig, writeJsonAtomic } from './config.js';
+
+// ─── Macro Library ────────────────────────────────────────────────────────────
+
+export const MacroLibrarySchema = z
+  .object({ macros: z.array(MacroSchema) })
+  .superRefine((library, ctx) => {
+    const seen = new Set<string>();
+    for (const [index, macro] of library.macros.entries()) {
+      if (seen.has(macro.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['macros', index, 'name'],
+          message: `Duplicate macro ${macro.name}`,
+        });
+      }
+      seen.add(macro.name);
+    }
+  });
+export type MacroLibrary = z.infer<typeof MacroLibrarySchema>;
+
+/**
+ * Named keypad macros, editable at runtime.
+ * When backed by a file, every change is written through atomically;
+ * without one, edits only last until the daemon restarts.
+ */
+export class MacroStore {
+  private readonly macros = new Map<string, Macro>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string | undefined,
+    macros: readonly Macro[],
+  ) {
+    for (const macro of macros) this.macros.set(macro.name, macro);
+  }
+
+  /**
+   * Loads the library at `path`, starting from DEFAULT_MACROS when no path is
+   * given or the file does not exist yet. Throws if an existing file is invalid.
+   */
+  static load(path?: string): MacroStore {
+    if (!path || !existsSync(path)) return new MacroStore(path, DEFAULT_MACROS);
+    return new MacroStore(path, readJsonConfig(path, MacroLibrarySchema, 'macro library').macros);
+  }
+
+  get persistent(): boolean {
+    return this.path !== undefined;
+  }
+
+  list(): Macro[] {
+    return [...this.macros.values()];
+  }
+
+  get(name: string): Macro | undefined {
+    return this.macros.get(name);
+  }
+
+  /** Adds or replaces a macro and persists the library */
+  async save(macro: Macro): Promise<void> {
+    this.macros.set(macro.name, macro);
+    await this.persist();
+  }
+
+  /** Removes a macro and persists the library; returns false if it did not exist */
+  async remove(name: string): Promise<boolean> {
+    if (!this.macros.delete(name)) return false;
+    await this.persist();
+    return true;
+  }
+
+  private persist(): Promise<void> {
+    const path = this.path;
+    if (!path) return Promise.resolve();
+    const library: MacroLibrary = { macros: this.list() };
+    // Chained so concurrent edits land in order
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => writeJsonAtomic(path, library));
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,54 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('renders counters per label set with HELP and TYPE', () => {
+    const registry = new MetricsRegistry();
+    const events = registry.register(new Counter('synapse_events_total', 'Events received'));
+    events.inc({ event_type: 'PRESS' });
+    events.inc({ event_type: 'ROTATE' }, 3);
+    events.inc({ event_type: 'PRESS' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP synapse_events_total Events received',
+        '# TYPE synapse_events_total counter',
+        'synapse_events_total{event_type="PRESS"} 2',
+        'synapse_events_total{event_type="ROTATE"} 3',
+        '',
+      ].join('\n'),
+    );
+    expect(() => events.inc({}, -1)).toThrow(/cannot decrease/);
+  });
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [0.01, 0.05]);
+    histogram.observe(0.004, { synapse_type: 'CLUTCH' });
+    histogram.observe(0.02, { synapse_type: 'CLUTCH' });
+    histogram.observe(0.2, { synapse_type: 'CLUTCH' });
+
+    expect(histogram.render().slice(2)).toEqual([
+      'latency_seconds_bucket{synapse_type="CLUTCH",le="0.01"} 1',
+      'latency_seconds_bucket{synapse_type="CLUTCH",le="0.05"} 2',
+      'latency_seconds_bucket{synapse_type="CLUTCH",le="+Inf"} 3',
+      'latency_seconds_sum{synapse_type="CLUTCH"} 0.224',
+      'latency_seconds_count{synapse_type="CLUTCH"} 3',
+    ]);
+  });
+
+  it('reads collected gauges at render time and escapes label values', () => {
+    let weight = 0.5;
+    const gauge = new Gauge('mix', 'Mix', (g) => g.set(weight));
+    weight = 0.75;
+    expect(gauge.render()).toContain('mix 0.75');
+
+    const clients = new Gauge('clients', 'Clients');
+    clients.inc({ role: 'say "hi"\n' });
+    expect(clients.render()).toContain('clients{role="say \\"hi\\"\\n"} 1');
+  });
+
+  it('rejects duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter('dup', 'first'));
+    expect(() => registry.register(new Gauge('dup', 'second'))).toThrow(/already registered/);
+  });
+});
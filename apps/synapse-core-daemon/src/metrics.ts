@@ -0,0 +1,183 @@
+// ─── Prometheus Text Exposition ───────────────────────────────────────────────
+
+/** Content type of the Prometheus text exposition format rendered below */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type LabelValues = Readonly<Record<string, string>>;
+
+/** Latency buckets in seconds, dense around the 50ms event budget */
+export const LATENCY_BUCKETS_SECONDS: readonly number[] = [
+  0.001, 0.0025, 0.005, 0.01, 0.02, 0.03, 0.05, 0.075, 0.1, 0.25, 0.5, 1,
+];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: LabelValues): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Series key independent of the order labels were passed in */
+function seriesKey(labels: LabelValues): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric<T> {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  protected readonly series = new Map<string, { labels: LabelValues; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  /** Exposition lines for this metric, HELP and TYPE first */
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].flatMap(({ labels, value }) => this.renderSeries(labels, value)),
+    ];
+  }
+
+  protected abstract renderSeries(labels: LabelValues, value: T): string[];
+
+  protected entry(labels: LabelValues, init: () => T): { labels: LabelValues; value: T } {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/** Monotonically increasing count */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: LabelValues = {}, by = 1): void {
+    if (by < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    const entry = this.entry(labels, () => 0);
+    entry.value += by;
+  }
+
+  protected renderSeries(labels: LabelValues, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down. With `collect`, the value is read from
+ * live state each time metrics are rendered instead of being tracked.
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect?: (gauge: Gauge) => void,
+  ) {
+    super(name, help);
+  }
+
+  set(value: number, labels: LabelValues = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: LabelValues = {}, by = 1): void {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  dec(labels: LabelValues = {}, by = 1): void {
+    this.inc(labels, -by);
+  }
+
+  override render(): string[] {
+    this.collect?.(this);
+    return super.render();
+  }
+
+  protected renderSeries(labels: LabelValues, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramSeries {
+  /** Non-cumulative count per bucket; rendered cumulatively */
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observed values over fixed upper bounds */
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+  private readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, buckets: readonly number[] = LATENCY_BUCKETS_SECONDS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: LabelValues = {}): void {
+    const entry = this.entry(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    const index = this.buckets.findIndex((upperBound) => value <= upperBound);
+    if (index >= 0) entry.value.bucketCounts[index] += 1;
+    entry.value.sum += value;
+    entry.value.count += 1;
+  }
+
+  protected renderSeries(labels: LabelValues, value: HistogramSeries): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((upperBound, index) => {
+      cumulative += value.bucketCounts[index] ?? 0;
+      const le = formatLabels({ ...labels, le: formatValue(upperBound) });
+      return `${this.name}_bucket${le} ${cumulative}`;
+    });
+    const formatted = formatLabels(labels);
+    return [
+      ...lines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatted} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatted} ${value.count}`,
+    ];
+  }
+}
+
+interface RenderableMetric {
+  readonly name: string;
+  render(): string[];
+}
+
+/** Set of metrics rendered together by the /metrics endpoint */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, RenderableMetric>();
+
+  register<M extends RenderableMetric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${[...this.metrics.values()].flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+}
@@ -0,0 +1,101 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { KernelMixConfig } from '@synapse/symbios-connector';
+import { StatePersistence, capturePersistableState, resolveConfigDir } from './persistence';
+
+const kernelConfig: KernelMixConfig = {
+  computeMixWeight: 0.8,
+  contextWindowTokens: 64_000,
+  primaryModel: 'CLOUD_GPT4O',
+};
+
+describe('StatePersistence', () => {
+  let dir: string;
+  let path: string;
+  let errors: Error[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-state-'));
+    path = join(dir, 'state.json');
+    errors = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const create = (): StatePersistence => new StatePersistence(path, (err) => errors.push(err), 5);
+
+  it('returns null before anything has been saved', () => {
+    expect(create().load()).toBeNull();
+  });
+
+  it('round-trips kernel config and persona', async () => {
+    const persistence = create();
+    persistence.schedule({ kernelConfig, persona: 'RESEARCHER' });
+    await persistence.flush();
+
+    expect(create().load()).toMatchObject({ version: 1, kernelConfig, persona: 'RESEARCHER' });
+  });
+
+  it('collapses scheduled changes into one write of the latest state', async () => {
+    const persistence = create();
+    persistence.schedule({ kernelConfig, persona: 'CODER' });
+    persistence.schedule({
+      kernelConfig: { ...kernelConfig, computeMixWeight: 0.2 },
+      persona: 'CODER',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await persistence.flush();
+
+    expect(errors).toEqual([]);
+    expect(create().load()?.kernelConfig.computeMixWeight).toBe(0.2);
+  });
+
+  it('skips writes that would not change the file', async () => {
+    const persistence = create();
+    persistence.schedule({ kernelConfig, persona: 'CODER' });
+    await persistence.flush();
+    const writtenAt = statSync(path).mtimeMs;
+    const saved = readFileSync(path, 'utf8');
+
+    persistence.schedule({ kernelConfig: { ...kernelConfig }, persona: 'CODER' });
+    await persistence.flush();
+    expect(readFileSync(path, 'utf8')).toBe(saved);
+    expect(statSync(path).mtimeMs).toBe(writtenAt);
+  });
+
+  it('never persists the clutch', async () => {
+    const persistence = create();
+    persistence.schedule(
+      capturePersistableState(kernelConfig, {
+        isClutchEngaged: true,
+        activeAgentContext: 'NAVIGATOR',
+        computeMixWeight: 0.8,
+        voicePipelineStatus: 'LISTENING',
+      }),
+    );
+    await persistence.flush();
+    expect(readFileSync(path, 'utf8')).not.toContain('Clutch');
+
+    // A hand-edited file cannot smuggle it back in either
+    writeFileSync(
+      path,
+      JSON.stringify({ ...JSON.parse(readFileSync(path, 'utf8')), isClutchEngaged: true }),
+    );
+    expect(create().load()).not.toHaveProperty('isClutchEngaged');
+  });
+
+  it('throws on an invalid state file', () => {
+    writeFileSync(path, JSON.stringify({ version: 2 }));
+    expect(() => create().load()).toThrow(/Invalid daemon state/);
+  });
+});
+
+describe('resolveConfigDir', () => {
+  it('prefers the configured directory', () => {
+    expect(resolveConfigDir('/etc/synapse')).toBe('/etc/synapse');
+    expect(resolveConfigDir(undefined)).toMatch(/\.synapse$/);
+  });
+});
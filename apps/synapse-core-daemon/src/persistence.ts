@@ -0,0 +1,115 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import type { SynapseState } from '@synapse/hardware-events';
+import { KernelMixConfigSchema, type KernelMixConfig } from '@synapse/symbios-connector';
+import { AgentPersonaSchema } from '@synapse/ui-executor-bridge';
+import { readJsonConfig, writeJsonAtomic } from './config.js';
+
+// ─── Persisted Daemon State ───────────────────────────────────────────────────
+
+/** Directory holding daemon state, macros, the audit journal and extensions (SYNAPSE_CONFIG_DIR) */
+export function resolveConfigDir(configured?: string): string {
+  return configured || join(homedir(), '.synapse');
+}
+
+/**
+ * Daemon state restored on boot. Deliberately has no clutch or machine state:
+ * the daemon always starts IDLE with OS control on the physical mouse.
+ */
+export const PersistedStateSchema = z.object({
+  version: z.literal(1),
+  savedAt: z.string(),
+  kernelConfig: KernelMixConfigSchema,
+  persona: AgentPersonaSchema,
+});
+export type PersistedState = z.infer<typeof PersistedStateSchema>;
+
+export type PersistableState = Pick<PersistedState, 'kernelConfig' | 'persona'>;
+
+/** Picks the persistable fields out of live daemon state */
+export function capturePersistableState(
+  kernelConfig: KernelMixConfig,
+  state: Readonly<SynapseState>,
+): PersistableState {
+  return { kernelConfig, persona: state.activeAgentContext };
+}
+
+/** Stable serialization of the persistable fields, for change detection */
+function serialize(state: PersistableState): string {
+  return JSON.stringify([state.kernelConfig, state.persona]);
+}
+
+/**
+ * Saves daemon state to a JSON file with atomic writes.
+ * Changes are debounced so a spinning dial costs one write, and writes that
+ * would not change the file are skipped.
+ */
+export class StatePersistence {
+  private scheduled: PersistableState | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastWritten: string | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param onError called when a debounced write fails; the state is retried
+   * on the next change or flush
+   */
+  constructor(
+    readonly path: string,
+    private readonly onError: (err: Error) => void,
+    private readonly debounceMs = 250,
+  ) {}
+
+  /**
+   * Reads the saved state, or returns null if none has been saved yet.
+   * Throws if the file exists but is unreadable or invalid.
+   */
+  load(): PersistedState | null {
+    if (!existsSync(this.path)) return null;
+    const persisted = readJsonConfig(this.path, PersistedStateSchema, 'daemon state');
+    this.lastWritten = serialize(persisted);
+    return persisted;
+  }
+
+  /** Queues `state` to be written once changes settle for `debounceMs` */
+  schedule(state: PersistableState): void {
+    this.scheduled = state;
+    if (this.timer !== null) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(this.onError);
+    }, this.debounceMs);
+  }
+
+  /** Writes any scheduled state now; resolves once it is on disk */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const state = this.scheduled;
+    this.scheduled = null;
+    if (state) {
+      const serialized = serialize(state);
+      if (serialized !== this.lastWritten) {
+        this.lastWritten = serialized;
+        const persisted: PersistedState = {
+          version: 1,
+          savedAt: new Date().toISOString(),
+          ...state,
+        };
+        // Chained so an older snapshot can never land after a newer one
+        this.pendingWrite = this.pendingWrite
+          .catch(() => undefined)
+          .then(() => writeJsonAtomic(this.path, persisted))
+          .catch((err: unknown) => {
+            if (this.lastWritten === serialized) this.lastWritten = null;
+            throw err;
+          });
+      }
+    }
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,94 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { hasValidToken, registerTokenOnly, requireToken } from './restAuth';
+
+describe('hasValidToken', () => {
+  it('accepts anything when no token is configured', () => {
+    expect(hasValidToken(undefined, undefined)).toBe(true);
+    expect(hasValidToken(undefined, '')).toBe(true);
+  });
+
+  it('requires the exact bearer token once one is configured', () => {
+    expect(hasValidToken('Bearer dev-secret', 'dev-secret')).toBe(true);
+    expect(hasValidToken('Bearer wrong', 'dev-secret')).toBe(false);
+    expect(hasValidToken('dev-secret', 'dev-secret')).toBe(false);
+    expect(hasValidToken(undefined, 'dev-secret')).toBe(false);
+  });
+});
+
+describe('requireToken', () => {
+  let token: string | undefined;
+  const app = Fastify();
+  const handler = jest.fn(async () => ({ entries: [] }));
+  app.get('/audit', { onRequest: requireToken(() => token) }, handler);
+
+  beforeEach(() => {
+    token = 'dev-secret';
+    handler.mockClear();
+  });
+
+  afterAll(() => app.close());
+
+  it('rejects a request without the token before the route runs', async () => {
+    const response = await app.inject({ method: 'GET', url: '/audit' });
+    expect(response.statusCode).toBe(401);
+    expect(response.json()).toEqual({ error: 'Invalid token' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes a request with the token through', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/audit',
+      headers: { authorization: 'Bearer dev-secret' },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ entries: [] });
+  });
+
+  it('reads the token per request', async () => {
+    token = undefined;
+    expect((await app.inject({ method: 'GET', url: '/audit' })).statusCode).toBe(200);
+  });
+});
+
+describe('registerTokenOnly', () => {
+  const routes = async (api: FastifyInstance): Promise<void> => {
+    api.get('/state', async () => ({ machineState: 'IDLE' }));
+  };
+
+  it('does not mount the routes without a configured token', async () => {
+    const app = Fastify();
+    expect(registerTokenOnly(app, '/api/v1', () => undefined, routes)).toBe(false);
+    expect((await app.inject({ method: 'GET', url: '/api/v1/state' })).statusCode).toBe(404);
+    await app.close();
+  });
+
+  it('mounts the routes behind the token when one is configured', async () => {
+    const app = Fastify();
+    expect(registerTokenOnly(app, '/api/v1', () => 'dev-secret', routes)).toBe(true);
+    expect((await app.inject({ method: 'GET', url: '/api/v1/state' })).statusCode).toBe(401);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/state',
+      headers: { authorization: 'Bearer dev-secret' },
+    });
+    expect(response.json()).toEqual({ machineState: 'IDLE' });
+    await app.close();
+  });
+
+  it('can mount routes at the root, as the audit routes are', async () => {
+    const audit = async (admin: FastifyInstance): Promise<void> => {
+      admin.get('/audit', async () => ({ entries: [] }));
+    };
+    const open = Fastify();
+    registerTokenOnly(open, '', () => undefined, audit);
+    expect((await open.inject({ method: 'GET', url: '/audit' })).statusCode).toBe(404);
+    await open.close();
+
+    const guarded = Fastify();
+    registerTokenOnly(guarded, '', () => 'dev-secret', audit);
+    expect((await guarded.inject({ method: 'GET', url: '/audit' })).statusCode).toBe(401);
+    await guarded.close();
+  });
+});
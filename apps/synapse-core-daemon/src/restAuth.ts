@@ -0,0 +1,46 @@
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+
+// ─── Bearer Token ─────────────────────────────────────────────────────────────
+
+/** Checks an `Authorization: Bearer <token>` header against `token`, if one is configured */
+export function hasValidToken(
+  authorization: string | undefined,
+  token: string | undefined,
+): boolean {
+  return !token || authorization === `Bearer ${token}`;
+}
+
+/**
+ * `onRequest` hook that answers 401 unless the request carries the shared
+ * token. `readToken` is called per request, so the token can be rotated
+ * through the environment without re-registering routes.
+ */
+export function requireToken(readToken: () => string | undefined) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | void> => {
+    if (!hasValidToken(request.headers.authorization, readToken())) {
+      return reply.code(401).send({ error: 'Invalid token' });
+    }
+  };
+}
+
+/**
+ * Mounts `routes` under `prefix` behind the shared token. Unlike routes that
+ * only check the token when one is configured, these are not mounted at all
+ * without one; returns whether they were.
+ */
+export function registerTokenOnly(
+  app: FastifyInstance,
+  prefix: string,
+  readToken: () => string | undefined,
+  routes: FastifyPluginAsync,
+): boolean {
+  if (!readToken()) return false;
+  app.register(
+    async (scope, options) => {
+      scope.addHook('onRequest', requireToken(readToken));
+      await routes(scope, options);
+    },
+    { prefix },
+  );
+  return true;
+}
@@ -0,0 +1,86 @@
+import type { LogiHardwareEvent } from '@synapse/hardware-events';
+import { RotateCoalescer, type CoalescedEvent } from './rotateCoalescer';
+
+function rotate(
+  componentId: 'DIAL_A' | 'DIAL_B',
+  value: number,
+  timestamp: number,
+): LogiHardwareEvent {
+  return { timestamp, deviceId: 'MX_CREATIVE_CONSOLE', componentId, eventType: 'ROTATE', value };
+}
+
+const release: LogiHardwareEvent = {
+  timestamp: 1_050,
+  deviceId: 'MX_MASTER_4',
+  componentId: 'ACTIONS_RING',
+  eventType: 'RELEASE',
+};
+
+describe('RotateCoalescer', () => {
+  let emitted: CoalescedEvent[];
+  let coalescer: RotateCoalescer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emitted = [];
+    coalescer = new RotateCoalescer(16, (batch) => emitted.push(batch));
+  });
+
+  afterEach(() => {
+    coalescer.dispose();
+    jest.useRealTimers();
+  });
+
+  it('merges a burst from the same component into one event after the window', () => {
+    coalescer.push(rotate('DIAL_A', 1, 1_000));
+    coalescer.push(rotate('DIAL_A', 2, 1_004));
+    coalescer.push(rotate('DIAL_A', -1, 1_008));
+    expect(emitted).toHaveLength(0);
+
+    jest.advanceTimersByTime(16);
+    expect(emitted).toEqual([{ event: rotate('DIAL_A', 2, 1_008), count: 3 }]);
+  });
+
+  it('flushes when a different component starts rotating', () => {
+    coalescer.push(rotate('DIAL_A', 1, 1_000));
+    coalescer.push(rotate('DIAL_B', 1, 1_002));
+    expect(emitted).toEqual([{ event: rotate('DIAL_A', 1, 1_000), count: 1 }]);
+
+    jest.advanceTimersByTime(16);
+    expect(emitted).toHaveLength(2);
+    expect(emitted[1]?.event.componentId).toBe('DIAL_B');
+  });
+
+  it('emits clutch events immediately, right after the pending rotation', () => {
+    coalescer.push(rotate('DIAL_A', 3, 1_000));
+    coalescer.push(release);
+    expect(emitted).toEqual([
+      { event: rotate('DIAL_A', 3, 1_000), count: 1 },
+      { event: release, count: 1 },
+    ]);
+
+    jest.advanceTimersByTime(16);
+    expect(emitted).toHaveLength(2);
+  });
+
+  it('passes every event through when the window is 0', () => {
+    const passthrough = new RotateCoalescer(0, (batch) => emitted.push(batch));
+    passthrough.push(rotate('DIAL_A', 1, 1_000));
+    passthrough.push(rotate('DIAL_A', 1, 1_001));
+    expect(emitted.map((b) => b.count)).toEqual([1, 1]);
+  });
+
+  it('drops the pending rotation on dispose', () => {
+    coalescer.push(rotate('DIAL_A', 1, 1_000));
+    coalescer.dispose();
+    jest.advanceTimersByTime(16);
+    expect(emitted).toHaveLength(0);
+  });
+
+  it('keeps the arrival time of the latest tick in a burst', () => {
+    coalescer.push(rotate('DIAL_A', 1, 1_000), 5_000);
+    coalescer.push(rotate('DIAL_A', 1, 1_004), 5_004);
+    jest.advanceTimersByTime(16);
+    expect(emitted[0]?.receivedAt).toBe(5_004);
+  });
+});
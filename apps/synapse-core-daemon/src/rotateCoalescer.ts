@@ -0,0 +1,89 @@
+import type { LogiHardwareEvent } from '@synapse/hardware-events';
+
+// ─── ROTATE Burst Coalescing ──────────────────────────────────────────────────
+
+export interface CoalescedEvent {
+  event: LogiHardwareEvent;
+  /** Number of raw events merged into `event` (1 = not merged) */
+  count: number;
+  /** Daemon time at which `event` (the latest of a burst) arrived */
+  receivedAt?: number;
+}
+
+interface PendingRotation {
+  key: string;
+  event: LogiHardwareEvent;
+  delta: number;
+  count: number;
+  receivedAt?: number;
+}
+
+/**
+ * Merges back-to-back ROTATE events from the same component into a single
+ * event whose value is the summed delta, emitted `windowMs` after the first
+ * tick of the burst.
+ *
+ * Any other event flushes the pending rotation immediately and is emitted
+ * right after it, so clutch PRESS/RELEASE never waits on the window.
+ */
+export class RotateCoalescer {
+  private pending: PendingRotation | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly windowMs: number,
+    private readonly emit: (batch: CoalescedEvent) => void,
+  ) {}
+
+  push(event: LogiHardwareEvent, receivedAt?: number): void {
+    const mergeable =
+      this.windowMs > 0 && event.eventType === 'ROTATE' && typeof event.value === 'number';
+    if (!mergeable) {
+      this.flush();
+      this.emit({ event, count: 1, receivedAt });
+      return;
+    }
+
+    const key = `${event.deviceId}:${event.componentId}`;
+    if (this.pending && this.pending.key === key) {
+      this.pending.delta += event.value as number;
+      this.pending.count += 1;
+      this.pending.event = event;
+      this.pending.receivedAt = receivedAt;
+      return;
+    }
+
+    this.flush();
+    this.pending = { key, event, delta: event.value as number, count: 1, receivedAt };
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.windowMs);
+  }
+
+  /** Emits the pending rotation, if any, without waiting for the window */
+  flush(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    // Latest timestamp so dial velocity tracking sees the end of the burst
+    this.emit({
+      event: { ...pending.event, value: pending.delta },
+      count: pending.count,
+      receivedAt: pending.receivedAt,
+    });
+  }
+
+  /** Drops the pending rotation without emitting it */
+  dispose(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
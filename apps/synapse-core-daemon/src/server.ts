@@ -1,26 +1,109 @@
-import Fastify from 'fastify';
-import type { FastifyRequest } from 'fastify';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import Fastify, { type FastifyInstance } from 'fastify';
 import fastifyWebsocket from '@fastify/websocket';
 import type { SocketStream } from '@fastify/websocket';
 import { WebSocket } from 'ws';
 import {
+  ClientMessageSchema,
+  ClientRoleSchema,
+  GestureRecognizer,
+  UiCommandSchema,
   LogiHardwareEventSchema,
+  MacroSchema,
+  PROTOCOL_VERSION,
   mapHardwareEventToSynapseType,
+  resolveBinding,
+  resolveBindingContext,
+  resolveSynapseEvent,
+  type AppContextMessage,
+  type ClientMessage,
+  type CommandMessage,
+  type DaemonMessage,
+  type DeadManReason,
+  type HelloMessage,
+  type InputEvent,
+  type LatencyBreakdown,
   type LogiHardwareEvent,
+  type PongMessage,
+  type ProtocolErrorCode,
+  type ShutdownReason,
+  type StateSnapshot,
+  type StateUpdateCause,
+  type UiCommand,
+  type WelcomeMessage,
 } from '@synapse/hardware-events';
 import {
+  KernelMixConfigSchema,
   MockKernelMixer,
-  dialDeltaToComputeWeight,
-  dialDeltaToContextTokens,
+  VelocityDial,
+  selectModel,
+  type KernelMixConfig,
 } from '@synapse/symbios-connector';
 import { MockVoicePipeline, type TranscriptionResult } from '@synapse/voice-pipeline';
 import {
   MockUiExecutorBridge,
+  AgentPersonaSchema,
   keypadToPersona,
   type AgentPersona,
   type OsControlState,
 } from '@synapse/ui-executor-bridge';
 import { SynapseMachine } from './stateMachine.js';
+import { AgentPipeline } from './agentPipeline.js';
+import {
+  AuditJournal,
+  AuditQuerySchema,
+  queryAuditJournal,
+  verifyAuditJournal,
+  type AuditOrigin,
+  type AuditRecord,
+} from './auditJournal.js';
+import { SendBufferMonitor, resolveSendBufferLimits } from './backpressure.js';
+import { loadBindingProfile } from './bindings.js';
+import { ClockSync, daemonNow } from './clockSync.js';
+import {
+  ClutchArbiter,
+  resolveArbitrationPolicy,
+  type ClutchClaimant,
+  type ClutchDecision,
+} from './clutchArbiter.js';
+import { loadDialProfiles } from './dials.js';
+import { ExtensionRegistry, loadExtensions, type ExtensionContext } from './extensions.js';
+import { HeartbeatMonitor } from './heartbeat.js';
+import {
+  InboundLimiter,
+  InboundQueue,
+  classifyInboundEvent,
+  resolveInboundLimits,
+  type InboundVerdict,
+} from './inboundLimits.js';
+import { MacroStore } from './macros.js';
+import { Counter, Gauge, Histogram, METRICS_CONTENT_TYPE, MetricsRegistry } from './metrics.js';
+import { negotiateHandshake } from './handshake.js';
+import {
+  StatePersistence,
+  capturePersistableState,
+  resolveConfigDir,
+  type PersistedState,
+} from './persistence.js';
+import { registerTokenOnly } from './restAuth.js';
+import { RotateCoalescer } from './rotateCoalescer.js';
+import { GracefulShutdown } from './shutdown.js';
+import { StateStream } from './stateSync.js';
+import { StateWatchdog, resolveStateTimeouts, type WatchedState } from './watchdog.js';
+import {
+  SessionRecorder,
+  readRecording,
+  replayRecording,
+  type MachineSnapshot,
+} from './sessionRecording.js';
+import {
+  FileTraceExporter,
+  OtlpHttpTraceExporter,
+  Tracer,
+  type Span,
+  type TraceExporter,
+} from './tracing.js';
 import { logger } from './logger.js';
 
 // ─── Daemon State ─────────────────────────────────────────────────────────────
@@ -30,6 +113,101 @@ const kernelMixer = new MockKernelMixer();
 const voicePipeline = new MockVoicePipeline();
 const uiBridge = new MockUiExecutorBridge();
 
+const bindingProfile = loadBindingProfile(process.env['SYNAPSE_BINDINGS_PATH']);
+logger.info(
+  {
+    profile: bindingProfile.name,
+    bindingCount: bindingProfile.bindings.length,
+    contexts: bindingProfile.contexts?.map((context) => context.name) ?? [],
+  },
+  'binding profile loaded',
+);
+
+const dialProfiles = loadDialProfiles(process.env['SYNAPSE_DIALS_PATH']);
+const computeMixDial = new VelocityDial(dialProfiles.computeMix);
+const contextWindowDial = new VelocityDial(dialProfiles.contextWindow);
+
+const CONFIG_DIR = resolveConfigDir(process.env['SYNAPSE_CONFIG_DIR']);
+
+const auditJournal = AuditJournal.open(
+  process.env['SYNAPSE_AUDIT_PATH'] ?? join(CONFIG_DIR, 'audit.jsonl'),
+);
+logger.info({ path: auditJournal.path }, 'audit journal opened');
+
+const statePersistence = new StatePersistence(join(CONFIG_DIR, 'state.json'), (err) =>
+  logger.error({ err }, 'failed to persist daemon state'),
+);
+let persistedState: PersistedState | null = null;
+try {
+  persistedState = statePersistence.load();
+} catch (err) {
+  // Losing remembered settings is better than refusing to start
+  logger.warn({ err }, 'ignoring unreadable daemon state; starting from defaults');
+}
+if (persistedState) {
+  // Through the same actions as live changes; the clutch always starts released
+  setComputeMix(persistedState.kernelConfig.computeMixWeight);
+  setContextWindow(persistedState.kernelConfig.contextWindowTokens);
+  switchPersona(persistedState.persona, { cause: 'RESTORE', sessionId: null });
+  logger.info(
+    { path: statePersistence.path, savedAt: persistedState.savedAt },
+    'daemon state restored',
+  );
+}
+
+const macroStore = MacroStore.load(
+  process.env['SYNAPSE_MACROS_PATH'] ?? join(CONFIG_DIR, 'macros.json'),
+);
+logger.info(
+  { macros: macroStore.list().map((macro) => macro.name), persistent: macroStore.persistent },
+  'macro library loaded',
+);
+for (const binding of [
+  ...bindingProfile.bindings,
+  ...(bindingProfile.contexts ?? []).flatMap((context) => context.bindings),
+]) {
+  const macroName = binding.payload?.['macro'];
+  if (
+    binding.action === 'SYNAPSE_KEYPAD_MACRO' &&
+    (typeof macroName !== 'string' || !macroStore.get(macroName))
+  ) {
+    logger.warn({ binding }, 'binding refers to an unknown macro');
+  }
+}
+
+const extensionRegistry = new ExtensionRegistry();
+const EXTENSIONS_DIR = process.env['SYNAPSE_EXTENSIONS_DIR'] ?? join(CONFIG_DIR, 'extensions');
+logger.info(
+  {
+    dir: EXTENSIONS_DIR,
+    extensions: loadExtensions(EXTENSIONS_DIR, extensionRegistry),
+    actions: extensionRegistry.list(),
+  },
+  'extensions loaded',
+);
+for (const binding of [
+  ...bindingProfile.bindings,
+  ...(bindingProfile.contexts ?? []).flatMap((context) => context.bindings),
+]) {
+  // Unlike macros, extensions cannot be added at runtime, so this can never resolve
+  if (binding.action.startsWith('EXT_') && !extensionRegistry.has(binding.action)) {
+    throw new Error(`Binding refers to ${binding.action}, which no extension registers`);
+  }
+}
+
+function extensionContext(action: string): ExtensionContext {
+  return {
+    machine,
+    kernelMixer,
+    voicePipeline,
+    uiBridge,
+    logger: logger.child({ extensionAction: action }),
+  };
+}
+
+/** Window for merging back-to-back ROTATE ticks of one component (0 disables) */
+const ROTATE_COALESCE_MS = Number(process.env['SYNAPSE_ROTATE_COALESCE_MS'] ?? 16);
+
 const DEMO_TRANSCRIPTION_ENABLED =
   process.env['NODE_ENV'] !== 'production' &&
   process.env['SYNAPSE_DEMO_TRANSCRIPTION'] === '1';
@@ -53,7 +231,6 @@ function scheduleDemoTranscription(): void {
 
   const partialDelayMs = 220;
   const finalDelayMs = 540;
-  const processingDelayMs = 680;
 
   demoTranscriptionTimeouts.push(
     setTimeout(() => {
@@ -73,76 +250,560 @@ function scheduleDemoTranscription(): void {
       );
     }, finalDelayMs),
   );
+}
 
-  demoTranscriptionTimeouts.push(
-    setTimeout(() => {
-      if (sessionId !== demoTranscriptionSessionId) return;
-      if (machine.getState() === 'CLUTCH_ENGAGED') {
-        machine.send({ type: 'VOICE_READY' });
-      }
-    }, processingDelayMs),
-  );
+// ─── Metrics ──────────────────────────────────────────────────────────────────
+
+const metrics = new MetricsRegistry();
+const eventProcessingSeconds = metrics.register(
+  new Histogram(
+    'synapse_event_processing_seconds',
+    'Time from a hardware event reaching the daemon to its STATE_UPDATE broadcast',
+  ),
+);
+const hardwareEventsTotal = metrics.register(
+  new Counter('synapse_hardware_events_total', 'Valid hardware events received from plugins'),
+);
+const invalidPayloadsTotal = metrics.register(
+  new Counter(
+    'synapse_invalid_payloads_total',
+    'Hardware events and commands that failed validation',
+  ),
+);
+const deadManTriggersTotal = metrics.register(
+  new Counter(
+    'synapse_dead_man_triggers_total',
+    'Clutch releases forced by a lost plugin, by reason',
+  ),
+);
+const watchdogReleasesTotal = metrics.register(
+  new Counter('synapse_watchdog_releases_total', 'Clutch releases forced by a state timeout'),
+);
+const clientConnectionsTotal = metrics.register(
+  new Counter('synapse_client_connections_total', 'Completed WebSocket handshakes'),
+);
+const stateUpdatesSkippedTotal = metrics.register(
+  new Counter(
+    'synapse_state_updates_skipped_total',
+    'State updates withheld from clients with a congested send buffer',
+  ),
+);
+const slowConsumerDisconnectsTotal = metrics.register(
+  new Counter(
+    'synapse_slow_consumer_disconnects_total',
+    'Clients dropped for staying over the send buffer limit, by role',
+  ),
+);
+const inboundEventsRejectedTotal = metrics.register(
+  new Counter(
+    'synapse_inbound_events_rejected_total',
+    'Hardware events refused by rate limits or a full queue, by reason and class',
+  ),
+);
+const fastLaneReleasesTotal = metrics.register(
+  new Counter('synapse_fast_lane_releases_total', 'Clutch releases that overtook queued rotations'),
+);
+const clutchReleasesDroppedTotal = metrics.register(
+  new Counter(
+    'synapse_clutch_releases_dropped_total',
+    'Clutch releases dropped as redundant, by reason (QUEUED, NOT_HELD)',
+  ),
+);
+const connectedClients = metrics.register(
+  new Gauge('synapse_connected_clients', 'WebSocket clients past the handshake'),
+);
+for (const role of ClientRoleSchema.options) connectedClients.set(0, { role });
+metrics.register(
+  new Gauge('synapse_clutch_engaged', '1 while the clutch is engaged', (gauge) =>
+    gauge.set(machine.getData().isClutchEngaged ? 1 : 0),
+  ),
+);
+metrics.register(
+  new Gauge('synapse_compute_mix_weight', 'Kernel compute mix (0 local, 1 cloud)', (gauge) =>
+    gauge.set(kernelMixer.getConfig().computeMixWeight),
+  ),
+);
+metrics.register(
+  new Gauge('synapse_context_window_tokens', 'Kernel context window', (gauge) =>
+    gauge.set(kernelMixer.getConfig().contextWindowTokens),
+  ),
+);
+
+// ─── Tracing ──────────────────────────────────────────────────────────────────
+
+const TRACE_PATH = process.env['SYNAPSE_TRACE_PATH'];
+const OTLP_ENDPOINT = process.env['SYNAPSE_OTLP_ENDPOINT'];
+const traceExporters: TraceExporter[] = [
+  ...(TRACE_PATH ? [new FileTraceExporter(TRACE_PATH)] : []),
+  ...(OTLP_ENDPOINT ? [new OtlpHttpTraceExporter(OTLP_ENDPOINT)] : []),
+];
+const tracer = new Tracer({
+  serviceName: 'synapse-core-daemon',
+  exporters: traceExporters,
+  onError: (err) => logger.warn({ err }, 'failed to export traces'),
+});
+
+if (tracer.recording) {
+  logger.info({ path: TRACE_PATH, endpoint: OTLP_ENDPOINT }, 'exporting traces');
+}
+
+/** Runs `fn` in a child span of `trace`, or untraced without one */
+function traced<T>(trace: Span | undefined, name: string, fn: () => T): T {
+  return trace ? trace.measure(name, fn) : fn();
+}
+
+function snapshotMachine(): MachineSnapshot {
+  return { machineState: machine.getState(), state: machine.getData() };
+}
+
+const RECORD_PATH = process.env['SYNAPSE_RECORD_PATH'];
+const recorder = RECORD_PATH ? new SessionRecorder(RECORD_PATH, snapshotMachine()) : null;
+
+if (recorder) {
+  logger.info({ path: RECORD_PATH }, 'recording hardware session');
+}
+
+const clutchArbiter = new ClutchArbiter(
+  resolveArbitrationPolicy(process.env['SYNAPSE_ARBITRATION_POLICY']),
+);
+
+/** Session id replayed events are attributed to for clutch arbitration */
+const REPLAY_SESSION_ID = 'replay';
+
+/** Connections that have not completed HELLO by then are closed */
+const HANDSHAKE_TIMEOUT_MS = 5_000;
+
+/** How often CLOCK_SYNC sessions are pinged to refresh their clock offset */
+const CLOCK_SYNC_INTERVAL_MS = Number(process.env['SYNAPSE_CLOCK_SYNC_INTERVAL_MS'] ?? 5_000);
+
+/** How often HEARTBEAT sessions are pinged */
+const HEARTBEAT_INTERVAL_MS = Number(process.env['SYNAPSE_HEARTBEAT_INTERVAL_MS'] ?? 1_000);
+/** A HEARTBEAT session silent for this long is treated as gone */
+const HEARTBEAT_TIMEOUT_MS = Number(process.env['SYNAPSE_HEARTBEAT_TIMEOUT_MS'] ?? 3_000);
+
+/** How long shutdown waits for queued events before closing sockets */
+const SHUTDOWN_DRAIN_MS = Number(process.env['SYNAPSE_SHUTDOWN_DRAIN_MS'] ?? 5_000);
+
+/** Per-connection rate limits by event class and the maximum inbound queue depth */
+const INBOUND_LIMITS = resolveInboundLimits(process.env);
+
+/** When a client's send buffer counts as congested, and how long it may stay that way */
+const SEND_BUFFER_LIMITS = resolveSendBufferLimits(process.env);
+
+interface StateSubscriber {
+  stream: StateStream;
+  sendBuffer: SendBufferMonitor;
 }
 
 // Connected WebSocket clients (Logi plugin + config UI)
-const clients = new Set<WebSocket>();
+const clients = new Map<WebSocket, StateSubscriber>();
 const pluginClients = new Set<WebSocket>();
+/** Per socket: flushes coalesced ticks and waits for its inbound queue, for shutdown to drain */
+const inboundQueues = new Map<WebSocket, () => Promise<void>>();
+/** Set once shutdown begins; nothing new is accepted and the clutch cannot engage */
+let shuttingDown = false;
 let lastTranscription: TranscriptionResult | null = null;
+/** Foreground application last reported by the plugin, selecting the binding context */
+let activeAppId: string | null = null;
 
 function getOsControlState(): OsControlState {
   return uiBridge.getControlState();
 }
 
+/** Whether there is anything for a release to hand back */
+function isClutchHeld(): boolean {
+  return machine.getData().isClutchEngaged || getOsControlState().owner === 'JAYU_AGENT';
+}
+
+const agentPipeline = new AgentPipeline({
+  machine,
+  kernelMixer,
+  uiBridge,
+  onStage: (run) => {
+    if (run.stage === 'FAILED') {
+      logger.warn({ runId: run.runId, error: run.error }, 'agent run failed');
+    } else {
+      logger.info({ runId: run.runId, stage: run.stage }, 'agent run');
+    }
+    broadcastState({
+      synapseType: `AGENT_${run.stage}`,
+      agentRun: run,
+      timestamp: Date.now(),
+    });
+  },
+});
+
 voicePipeline.onTranscription((result) => {
   lastTranscription = result;
-  broadcast({
-    type: 'STATE_UPDATE',
+  broadcastState({
+    timestamp: Date.now(),
+  });
+  if (result.isFinal) void agentPipeline.run(result);
+});
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const readSharedToken = (): string | undefined => process.env['SYNAPSE_WS_TOKEN'];
+
+function sendMessage(socket: WebSocket, message: DaemonMessage): void {
+  try {
+    socket.send(JSON.stringify(message));
+  } catch {
+    // ignore — the close handler cleans up
+  }
+}
+
+/** Live daemon state, as broadcast to clients and served by the REST API */
+function captureStateSnapshot(): StateSnapshot {
+  return {
+    machineState: machine.getState(),
     state: machine.getData(),
     kernelConfig: kernelMixer.getConfig(),
     osControlState: getOsControlState(),
-    transcription: result,
-    timestamp: Date.now(),
+    transcription: lastTranscription,
+    appContext: activeAppId,
+  };
+}
+
+function dropSubscriber(socket: WebSocket): void {
+  clients.get(socket)?.sendBuffer.stop();
+  clients.delete(socket);
+}
+
+/** Whether `event` is bound to releasing the clutch, which takes the inbound fast lane */
+function isClutchRelease(event: LogiHardwareEvent): boolean {
+  return (
+    mapHardwareEventToSynapseType(event, bindingProfile, activeAppId) === 'SYNAPSE_CLUTCH_RELEASE'
+  );
+}
+
+/** Registers a STATE_UPDATES session and sends it the current state */
+function subscribeToState(socket: WebSocket, session: WelcomeMessage): void {
+  const { role, sessionId } = session;
+  const stream = new StateStream(session.topics ?? [], session.features.includes('STATE_DELTAS'));
+  const sendBuffer = new SendBufferMonitor(SEND_BUFFER_LIMITS, () => socket.bufferedAmount, {
+    onDrained: () => {
+      const message = stream.catchUp(captureStateSnapshot());
+      if (message) sendMessage(socket, message);
+    },
+    onOverloaded: (bufferedBytes, overloadedMs) => {
+      logger.warn({ bufferedBytes, overloadedMs, sessionId }, 'client send buffer overloaded');
+      slowConsumerDisconnectsTotal.inc({ role });
+      sendMessage(socket, {
+        type: 'ERROR',
+        code: 'SLOW_CONSUMER',
+        message: `Send buffer stayed over ${SEND_BUFFER_LIMITS.maxBufferedBytes} bytes`,
+      });
+      // A full buffer would hold up the close handshake too
+      socket.terminate();
+    },
   });
-});
+  clients.set(socket, { stream, sendBuffer });
+  // Deltas continue from this snapshot's seq
+  sendMessage(socket, stream.snapshot(captureStateSnapshot()));
+}
 
-function broadcast(payload: unknown): void {
-  const msg = JSON.stringify(payload);
-  for (const client of clients) {
+/**
+ * Sends the live state to every STATE_UPDATES client, trimmed to its topics;
+ * congested clients only get clutch changes until their buffer drains.
+ */
+function broadcastState(cause: StateUpdateCause): void {
+  const live = captureStateSnapshot();
+  for (const [client, { stream, sendBuffer }] of clients) {
     if (client.readyState !== WebSocket.OPEN) {
-      clients.delete(client);
+      dropSubscriber(client);
       continue;
     }
 
+    const message = stream.next(live, cause, sendBuffer.congested());
+    if (message === null) {
+      if (stream.behind) stateUpdatesSkippedTotal.inc();
+      continue;
+    }
     try {
-      client.send(msg);
+      client.send(JSON.stringify(message));
     } catch {
-      clients.delete(client);
+      dropSubscriber(client);
     }
   }
 }
 
+// ─── Synapse Actions ──────────────────────────────────────────────────────────
+
+// Shared by hardware bindings, application contexts, macros and UI commands
+// so every path keeps the kernel mixer, machine and UI bridge in step.
+
+/** Journals an OS control handoff; a failed write is logged, never blocks the action */
+function recordAudit(record: AuditRecord): void {
+  try {
+    auditJournal.append(record);
+  } catch (err) {
+    logger.error({ err, record }, 'failed to write audit journal');
+  }
+}
+
+function persistState(): void {
+  statePersistence.schedule(capturePersistableState(kernelMixer.getConfig(), machine.getData()));
+}
+
+function setComputeMix(weight: number): void {
+  kernelMixer.setComputeMix(weight);
+  machine.send({ type: 'COMPUTE_MIX_SET', weight: kernelMixer.getConfig().computeMixWeight });
+  persistState();
+}
+
+function setContextWindow(tokens: number): void {
+  kernelMixer.setContextWindow(tokens);
+  persistState();
+}
+
+/**
+ * Switches the agent persona through the machine, which refuses while the
+ * agent is listening or executing. The bridge, journal and saved state only
+ * follow an actual change. Returns false if the machine refused.
+ */
+function switchPersona(persona: AgentPersona, origin: AuditOrigin): boolean {
+  const previous = machine.getData().activeAgentContext;
+  machine.send({ type: 'KEYPAD_SWITCH', persona });
+  const active = machine.getData().activeAgentContext;
+  if (active !== persona) {
+    logger.warn({ persona, active, state: machine.getState() }, 'persona switch refused');
+    return false;
+  }
+  if (previous === persona) return true;
+
+  uiBridge.switchPersona(persona);
+  recordAudit({ action: 'PERSONA_SWITCHED', ...origin, details: { persona, previous } });
+  persistState();
+  return true;
+}
+
+/** Runs each step of the named macro in order; unknown names are logged and ignored */
+function runMacro(name: unknown, origin: AuditOrigin): void {
+  const macro = typeof name === 'string' ? macroStore.get(name) : undefined;
+  if (!macro) {
+    logger.warn({ macro: name }, 'unknown macro');
+    return;
+  }
+
+  for (const step of macro.steps) {
+    switch (step.action) {
+      case 'SET_COMPUTE_MIX':
+        setComputeMix(step.weight);
+        break;
+      case 'SET_CONTEXT_WINDOW':
+        setContextWindow(step.tokens);
+        break;
+      case 'SWITCH_PERSONA':
+        switchPersona(step.persona, origin);
+        break;
+    }
+  }
+  logger.info({ macro: macro.name, stepCount: macro.steps.length }, 'macro run');
+}
+
+/**
+ * Priority 0 interrupt: cancels any agent run, releases the clutch and hands
+ * OS control back. Does nothing, and journals nothing, when the clutch is not
+ * held. Returns the time spent in bridge calls.
+ */
+async function releaseClutch(
+  timestamp: number,
+  reason: string,
+  origin: AuditOrigin,
+  trace?: Span,
+): Promise<number> {
+  clutchArbiter.clear();
+  if (!isClutchHeld()) {
+    logger.debug({ reason }, 'clutch not held — nothing to release');
+    return 0;
+  }
+  const persona = uiBridge.getActivePersona() as AgentPersona;
+  traced(trace, 'machine_transition', () => {
+    agentPipeline.cancel(reason);
+    machine.send({ type: 'CLUTCH_RELEASE' });
+  });
+  clearDemoTranscription();
+  lastTranscription = null;
+  let bridgeMs = await timeBridgeCall(trace, 'voice', () => voicePipeline.release());
+  bridgeMs += await timeBridgeCall(trace, 'bridge', () =>
+    uiBridge.release({ type: 'RELEASE', timestamp, agentPersona: persona }),
+  );
+  recordAudit({ action: 'OS_CONTROL_RELEASED', ...origin, details: { reason, persona } });
+  return bridgeMs;
+}
+
+/**
+ * Releases an engaged clutch once the hardware can no longer release it.
+ * @param sessionId plugin session whose loss triggered the switch
+ */
+function triggerDeadManSwitch(reason: DeadManReason, sessionId: string): void {
+  if (!machine.getData().isClutchEngaged) return;
+  logger.warn({ reason, sessionId }, 'dead-man switch triggered — releasing clutch');
+  deadManTriggersTotal.inc({ reason });
+  recordAudit({ action: 'DEAD_MAN_TRIGGERED', cause: 'DEAD_MAN', sessionId, details: { reason } });
+  const ts = Date.now();
+  void releaseClutch(ts, `dead-man switch: ${reason}`, { cause: 'DEAD_MAN', sessionId }).then(() =>
+    broadcastState({
+      synapseType: 'DEAD_MAN_CLUTCH_RELEASE',
+      deadManReason: reason,
+      timestamp: ts,
+    }),
+  );
+}
+
+/** Releases the clutch when the hold, or a stay in `state`, outlived its timeout */
+function triggerWatchdog(state: WatchedState, timeoutMs: number): void {
+  logger.warn({ state, timeoutMs }, 'state watchdog fired — releasing clutch');
+  watchdogReleasesTotal.inc({ state });
+  const ts = Date.now();
+  const origin: AuditOrigin = {
+    cause: 'WATCHDOG',
+    sessionId: clutchArbiter.owner?.sessionId ?? null,
+  };
+  void releaseClutch(ts, `watchdog: ${state} exceeded ${timeoutMs}ms`, origin).then(() =>
+    broadcastState({
+      synapseType: 'WATCHDOG_CLUTCH_RELEASE',
+      timedOutState: state,
+      timestamp: ts,
+    }),
+  );
+}
+
+const stateWatchdog = new StateWatchdog(resolveStateTimeouts(process.env), triggerWatchdog);
+machine.onTransition((state) => stateWatchdog.observe(state));
+
 // ─── Hardware Event Processor ─────────────────────────────────────────────────
 
-async function processHardwareEvent(event: LogiHardwareEvent): Promise<void> {
-  const receiveTime = process.hrtime.bigint();
-  logger.info({ event }, 'hardware event received');
+/** When an inbound event reached the daemon, for latency attribution */
+interface EventReceipt {
+  /** Daemon time the event arrived on the socket */
+  receivedAt: number;
+  /** Event timestamp in daemon time; null without a clock estimate for the plugin */
+  sentAt: number | null;
+}
 
-  const synapseType = mapHardwareEventToSynapseType(event);
-  if (!synapseType) {
+/** Awaits a bridge call in its own span and returns how long it took */
+async function timeBridgeCall(
+  trace: Span | undefined,
+  stage: 'voice' | 'bridge',
+  call: () => Promise<unknown>,
+): Promise<number> {
+  const startedAt = daemonNow();
+  await traced(trace, stage, call);
+  return daemonNow() - startedAt;
+}
+
+/**
+ * Processes one event inside a `hardware_event` trace that starts when the
+ * event arrived, so queueing and coalescing show up as time before the
+ * first stage.
+ * @param sessionId plugin session the event came from, for clutch arbitration
+ * @param batchedDeltas number of raw ROTATE events coalesced into `event`
+ * @param receipt arrival time of the event; gestures and replays have none
+ */
+async function processHardwareEvent(
+  event: InputEvent,
+  sessionId: string,
+  batchedDeltas = 1,
+  receipt?: EventReceipt,
+): Promise<void> {
+  const receivedAt = receipt?.receivedAt ?? daemonNow();
+  const trace = tracer.startTrace(
+    'hardware_event',
+    {
+      'synapse.session_id': sessionId,
+      'synapse.device_id': event.deviceId,
+      'synapse.component_id': event.componentId,
+      'synapse.event_type': event.eventType,
+      'synapse.batched_deltas': batchedDeltas,
+    },
+    receivedAt,
+  );
+  try {
+    await applyHardwareEvent(
+      event,
+      { sessionId, deviceId: event.deviceId },
+      batchedDeltas,
+      receivedAt,
+      receipt?.sentAt ?? null,
+      trace,
+    );
+    trace.end();
+  } catch (err) {
+    trace.end(err);
+    throw err;
+  }
+}
+
+/** Logs and traces an arbitration decision; returns false if the event should be dropped */
+function applyArbitration(
+  decision: ClutchDecision,
+  claimant: ClutchClaimant,
+  trace: Span,
+): boolean {
+  trace.setAttribute('synapse.arbitration', decision.action);
+  switch (decision.action) {
+    case 'IGNORE':
+      logger.info(
+        { claimant, owner: clutchArbiter.owner, reason: decision.reason },
+        'clutch event ignored by arbitration',
+      );
+      return false;
+    case 'TRANSFER':
+      logger.info({ claimant, previous: decision.previous }, 'clutch ownership transferred');
+      return false;
+    default:
+      return true;
+  }
+}
+
+async function applyHardwareEvent(
+  event: InputEvent,
+  claimant: ClutchClaimant,
+  batchedDeltas: number,
+  receivedAt: number,
+  sentAt: number | null,
+  trace: Span,
+): Promise<void> {
+  let bridgeMs = 0;
+  logger.info({ event, batchedDeltas, traceId: trace.traceId }, 'hardware event received');
+
+  const synapseEvent = trace.measure('mapping', () =>
+    resolveSynapseEvent(event, bindingProfile, activeAppId),
+  );
+  if (!synapseEvent) {
     logger.debug({ event }, 'no synapse mapping for event');
     return;
   }
+  const synapseType = synapseEvent.type;
+  trace.setAttribute('synapse.type', synapseType);
 
   const persona = uiBridge.getActivePersona() as AgentPersona;
+  const origin: AuditOrigin = { cause: 'HARDWARE_EVENT', sessionId: claimant.sessionId };
 
   switch (synapseType) {
     case 'SYNAPSE_CLUTCH_ENGAGE': {
-      machine.send({ type: 'CLUTCH_ENGAGE', persona });
-      await voicePipeline.engage();
-      await uiBridge.engage({
-        type: 'ENGAGE',
-        timestamp: event.timestamp,
-        agentPersona: persona,
+      if (shuttingDown) {
+        logger.warn({ claimant }, 'clutch engage ignored during shutdown');
+        return;
+      }
+      if (!applyArbitration(clutchArbiter.engage(claimant), claimant, trace)) return;
+      trace.measure('machine_transition', () => machine.send({ type: 'CLUTCH_ENGAGE', persona }));
+      bridgeMs += await timeBridgeCall(trace, 'voice', () => voicePipeline.engage());
+      bridgeMs += await timeBridgeCall(trace, 'bridge', () =>
+        uiBridge.engage({
+          type: 'ENGAGE',
+          timestamp: event.timestamp,
+          agentPersona: persona,
+        }),
+      );
+      recordAudit({
+        action: 'OS_CONTROL_ENGAGED',
+        ...origin,
+        details: { deviceId: claimant.deviceId, persona },
       });
       scheduleDemoTranscription();
       logger.info({ persona }, 'clutch engaged');
@@ -151,68 +812,318 @@ async function processHardwareEvent(event: LogiHardwareEvent): Promise<void> {
 
     case 'SYNAPSE_CLUTCH_RELEASE': {
       // Priority 0 Interrupt — HARD STOP
-      machine.send({ type: 'CLUTCH_RELEASE' });
-      clearDemoTranscription();
-      lastTranscription = null;
-      await voicePipeline.release();
-      await uiBridge.release({
-        type: 'RELEASE',
-        timestamp: event.timestamp,
-        agentPersona: persona,
-      });
+      if (!applyArbitration(clutchArbiter.release(claimant), claimant, trace)) return;
+      bridgeMs += await releaseClutch(event.timestamp, 'clutch released', origin, trace);
       logger.info('clutch released — OS control restored');
       break;
     }
 
     case 'SYNAPSE_DIAL_COMPUTE_MIX': {
       const delta = typeof event.value === 'number' ? event.value : 0;
-      const newWeight = dialDeltaToComputeWeight(kernelMixer.getConfig().computeMixWeight, delta);
-      kernelMixer.setComputeMix(newWeight);
-      machine.send({ type: 'DIAL_COMPUTE', delta });
+      const newWeight = computeMixDial.apply(
+        `${event.deviceId}:${event.componentId}`,
+        kernelMixer.getConfig().computeMixWeight,
+        delta,
+        event.timestamp,
+      );
+      trace.measure('machine_transition', () => setComputeMix(newWeight));
       logger.info({ newWeight }, 'compute mix updated');
       break;
     }
 
     case 'SYNAPSE_DIAL_CONTEXT_WINDOW': {
       const delta = typeof event.value === 'number' ? event.value : 0;
-      const newTokens = dialDeltaToContextTokens(
+      const newTokens = contextWindowDial.apply(
+        `${event.deviceId}:${event.componentId}`,
         kernelMixer.getConfig().contextWindowTokens,
         delta,
+        event.timestamp,
       );
-      kernelMixer.setContextWindow(newTokens);
+      trace.measure('machine_transition', () => setContextWindow(newTokens));
       logger.info({ newTokens }, 'context window updated');
       break;
     }
 
     case 'SYNAPSE_KEYPAD_CONTEXT_SWITCH': {
+      // A persona in the binding payload takes precedence over the key number
+      const boundPersona = AgentPersonaSchema.safeParse(synapseEvent.payload?.['persona']);
       const key = typeof event.value === 'number' ? event.value : 0;
-      const switchPersona = keypadToPersona(key);
-      if (switchPersona) {
-        machine.send({ type: 'KEYPAD_SWITCH', persona: switchPersona });
-        uiBridge.switchPersona(switchPersona);
-        logger.info({ switchPersona }, 'agent persona switched');
+      const nextPersona = boundPersona.success ? boundPersona.data : keypadToPersona(key);
+      if (nextPersona) {
+        const switched = trace.measure('machine_transition', () =>
+          switchPersona(nextPersona, origin),
+        );
+        if (switched) logger.info({ persona: nextPersona }, 'agent persona switched');
+      }
+      break;
+    }
+
+    case 'SYNAPSE_KEYPAD_MACRO': {
+      trace.measure('machine_transition', () => runMacro(synapseEvent.payload?.['macro'], origin));
+      break;
+    }
+
+    default: {
+      const outcome = await trace.measure('extension', () =>
+        extensionRegistry.dispatch(
+          synapseType,
+          event,
+          synapseEvent.payload,
+          extensionContext(synapseType),
+        ),
+      );
+      trace.setAttribute('synapse.extension_outcome', outcome.status);
+      if (outcome.status === 'GUARDED') {
+        logger.info({ synapseType, state: outcome.state }, 'extension action guarded');
+        return;
       }
+      if (outcome.status !== 'HANDLED') {
+        logger.warn({ synapseType, outcome }, 'extension action not run');
+        return;
+      }
+      logger.info({ synapseType, extension: outcome.extension }, 'extension action handled');
       break;
     }
   }
 
-  const latencyNs = process.hrtime.bigint() - receiveTime;
-  const latencyMs = Number(latencyNs) / 1_000_000;
-  logger.info({ latencyMs, synapseType }, 'event processed');
+  const broadcastAt = daemonNow();
+  const latencyMs = broadcastAt - receivedAt;
+  const latency: LatencyBreakdown = {
+    transportMs: sentAt === null ? null : receivedAt - sentAt,
+    processingMs: Math.max(0, latencyMs - bridgeMs),
+    bridgeMs,
+    endToEndMs: sentAt === null ? null : broadcastAt - sentAt,
+  };
+  logger.info(
+    { latencyMs, latency, synapseType, batchedDeltas, traceId: trace.traceId },
+    'event processed',
+  );
+  eventProcessingSeconds.observe(latencyMs / 1_000, { synapse_type: synapseType });
 
-  broadcast({
-    type: 'STATE_UPDATE',
-    synapseType,
-    machineState: machine.getState(),
-    state: machine.getData(),
-    kernelConfig: kernelMixer.getConfig(),
-    osControlState: getOsControlState(),
-    latencyMs,
+  trace.measure('broadcast', () =>
+    broadcastState({
+      synapseType,
+      latencyMs,
+      latency,
+      traceId: trace.traceId,
+      timestamp: Date.now(),
+    }),
+  );
+}
+
+/**
+ * Switches the binding context to the newly focused application and, when
+ * its context names one, the agent persona. The persona only follows focus
+ * while idle: once the clutch is engaged the agent moves focus itself.
+ */
+function applyAppContext(appId: string | null, sessionId: string): void {
+  if (appId === activeAppId) return;
+  activeAppId = appId;
+
+  const context = resolveBindingContext(bindingProfile, appId);
+  logger.info({ appId, context: context?.name }, 'foreground application changed');
+
+  const persona = context?.persona;
+  if (
+    persona &&
+    machine.getState() === 'IDLE' &&
+    persona !== machine.getData().activeAgentContext
+  ) {
+    switchPersona(persona, { cause: 'APP_CONTEXT', sessionId });
+    logger.info({ persona, appId }, 'agent persona switched for application');
+  }
+
+  broadcastState({
+    synapseType: 'APP_CONTEXT_CHANGED',
     timestamp: Date.now(),
-    transcription: lastTranscription,
   });
 }
 
+/**
+ * Runs a validated UI or REST command through the same actions as hardware bindings
+ * @param origin who sent the command, for the audit journal
+ */
+async function processCommand(command: UiCommand, origin: AuditOrigin): Promise<void> {
+  switch (command.action) {
+    case 'SET_COMPUTE_MIX':
+      setComputeMix(command.weight);
+      break;
+    case 'SET_CONTEXT_WINDOW':
+      setContextWindow(command.tokens);
+      break;
+    case 'SWITCH_PERSONA':
+      if (!switchPersona(command.persona, origin)) {
+        throw new Error(`Persona cannot change while the machine is ${machine.getState()}`);
+      }
+      break;
+    case 'FORCE_RELEASE':
+      await releaseClutch(Date.now(), 'forced release', origin);
+      break;
+  }
+  logger.info({ command }, 'ui command applied');
+
+  broadcastState({
+    synapseType: `COMMAND_${command.action}`,
+    timestamp: Date.now(),
+  });
+}
+
+const REST_ORIGIN: AuditOrigin = { cause: 'REST_API', sessionId: null };
+
+/** REST changes run one at a time, like the commands of a WebSocket session */
+let restCommandQueue: Promise<void> = Promise.resolve();
+
+function runRestChange(change: () => void | Promise<void>): Promise<void> {
+  const run = restCommandQueue.then(change);
+  restCommandQueue = run.catch(() => undefined);
+  return run;
+}
+
+function runRestCommand(command: UiCommand): Promise<void> {
+  return runRestChange(() => processCommand(command, REST_ORIGIN));
+}
+
+/**
+ * Replaces the compute mix and context window as one change: one broadcast
+ * and one persisted write, and the previous config is put back if a step throws.
+ */
+function applyKernelConfig(
+  config: Pick<KernelMixConfig, 'computeMixWeight' | 'contextWindowTokens'>,
+): void {
+  const previous = kernelMixer.getConfig();
+  try {
+    kernelMixer.setComputeMix(config.computeMixWeight);
+    kernelMixer.setContextWindow(config.contextWindowTokens);
+    machine.send({ type: 'COMPUTE_MIX_SET', weight: kernelMixer.getConfig().computeMixWeight });
+  } catch (err) {
+    kernelMixer.setComputeMix(previous.computeMixWeight);
+    kernelMixer.setContextWindow(previous.contextWindowTokens);
+    throw err;
+  }
+  persistState();
+  logger.info({ config: kernelMixer.getConfig() }, 'kernel config replaced');
+
+  broadcastState({
+    synapseType: 'KERNEL_CONFIG_REPLACED',
+    timestamp: Date.now(),
+  });
+}
+
+/** Daemon state as served by the REST API */
+function snapshotState() {
+  return {
+    ...captureStateSnapshot(),
+    clutchOwner: clutchArbiter.owner,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Runs one (possibly coalesced) inbound event, then any gestures it completes,
+ * and records the outcome when session recording is enabled. A bound gesture
+ * replaces the raw event it came from; see GestureRecognizer.route.
+ * @param sessionId plugin session the event came from
+ * @param options.offsetMs recording offset captured when the event arrived
+ * @param options.receipt arrival time of the event on the socket
+ */
+async function processInboundEvent(
+  event: LogiHardwareEvent,
+  batchedDeltas: number,
+  gestureRecognizer: GestureRecognizer,
+  sessionId: string,
+  options: { offsetMs?: number; receipt?: EventReceipt } = {},
+): Promise<void> {
+  const { offsetMs, receipt } = options;
+  const routed = gestureRecognizer.route(event, (input) =>
+    resolveBinding(input, bindingProfile, activeAppId),
+  );
+  if (routed.length !== 1 || routed[0] !== event) logger.debug({ routed }, 'gestures recognized');
+
+  try {
+    // Raw events come before gestures, so the clutch never waits on recognition
+    for (const input of routed) {
+      if (input === event) await processHardwareEvent(event, sessionId, batchedDeltas, receipt);
+      else await processHardwareEvent(input, sessionId);
+    }
+  } finally {
+    if (recorder && offsetMs !== undefined) {
+      recorder.record(offsetMs, event, batchedDeltas, snapshotMachine(), activeAppId);
+    }
+  }
+}
+
+// ─── Shutdown ─────────────────────────────────────────────────────────────────
+
+/** Shutdown sequence for `app`; see GracefulShutdown for the order of steps */
+function createShutdown(app: FastifyInstance): GracefulShutdown {
+  return new GracefulShutdown(
+    {
+      release: async (reason) => {
+        if (!isClutchHeld()) return;
+        logger.warn({ reason }, 'releasing clutch for shutdown');
+        await releaseClutch(Date.now(), `daemon shutdown: ${reason}`, {
+          cause: 'SHUTDOWN',
+          sessionId: null,
+        });
+      },
+      notify: (reason) => {
+        // Every session, not only STATE_UPDATES subscribers
+        for (const socket of new Set([...clients.keys(), ...pluginClients])) {
+          sendMessage(socket, { type: 'DAEMON_SHUTDOWN', reason, timestamp: Date.now() });
+        }
+      },
+      pending: () => [...[...inboundQueues.values()].map((drain) => drain()), restCommandQueue],
+      close: async () => {
+        await app.close();
+        stateWatchdog.stop();
+        await statePersistence.flush();
+        await recorder?.close();
+        await tracer.flush();
+      },
+    },
+    SHUTDOWN_DRAIN_MS,
+    (step, err) => logger.error({ err, step }, 'shutdown step failed'),
+  );
+}
+
+// ─── Session Replay ───────────────────────────────────────────────────────────
+
+/**
+ * Feeds a recorded session back through the processing path and logs every
+ * point where the resulting state differs from the recording.
+ */
+async function runReplay(path: string, realtime: boolean): Promise<void> {
+  const recording = readRecording(path);
+  const gestureRecognizer = new GestureRecognizer(bindingProfile.gestures);
+  logger.info({ path, eventCount: recording.events.length, realtime }, 'replay started');
+
+  const report = await replayRecording(recording, {
+    realtime,
+    initial: snapshotMachine(),
+    process: async (record) => {
+      if (record.appContext !== undefined) applyAppContext(record.appContext, REPLAY_SESSION_ID);
+      await processInboundEvent(
+        record.event,
+        record.batchedDeltas,
+        gestureRecognizer,
+        REPLAY_SESSION_ID,
+      );
+      return snapshotMachine();
+    },
+  });
+
+  for (const diff of report.initialDiffs) {
+    logger.warn({ diff }, 'replay started from a different state than the recording');
+  }
+  for (const diff of report.diffs) {
+    logger.warn({ diff, event: recording.events[diff.index]?.event }, 'replay state mismatch');
+  }
+  logger.info(
+    { eventCount: report.eventCount, mismatchCount: report.diffs.length },
+    'replay finished',
+  );
+}
+
 // ─── Fastify Server ───────────────────────────────────────────────────────────
 
 export function buildServer() {
@@ -221,125 +1132,494 @@ export function buildServer() {
   app.register(fastifyWebsocket);
 
   app.register(async (fastify) => {
-    /** Logitech plugin and config UI connect here */
-    fastify.get('/ws', { websocket: true }, (connection: SocketStream, req: FastifyRequest) => {
+    /** Logitech plugin and config UI connect here; the first message must be HELLO */
+    fastify.get('/ws', { websocket: true }, (connection: SocketStream) => {
       const socket = connection.socket;
 
-      const url = new URL(req.url, `http://${req.headers.host ?? 'localhost'}`);
-      const role = url.searchParams.get('role') ?? 'viewer';
-      const token = url.searchParams.get('token');
-      const configuredToken = process.env['SYNAPSE_WS_TOKEN'];
-      const isTokenConfigured = Boolean(configuredToken);
-      const isPlugin = role === 'plugin';
-      const canSendEvents = isPlugin && (!isTokenConfigured || token === configuredToken);
+      let session: WelcomeMessage | null = null;
+      const inboundQueue = new InboundQueue((err) =>
+        logger.error({ err }, 'inbound task failed unexpectedly'),
+      );
+      const inboundLimiter = new InboundLimiter(INBOUND_LIMITS);
+      let isClosed = false;
+      const gestureRecognizer = new GestureRecognizer(bindingProfile.gestures);
+      const clockSync = new ClockSync();
+      let pingTimer: ReturnType<typeof setInterval> | null = null;
+      let nextPingId = 0;
+      const heartbeat = new HeartbeatMonitor(HEARTBEAT_TIMEOUT_MS, (silentMs) => {
+        logger.warn({ silentMs, sessionId: session?.sessionId }, 'client heartbeat timed out');
+        // The socket may never close by itself, so release before dropping it
+        if (pluginClients.has(socket)) releaseIfOwned('HEARTBEAT_TIMEOUT');
+        socket.terminate();
+      });
 
-      if (isPlugin && isTokenConfigured && !canSendEvents) {
-        logger.warn('plugin connection rejected: invalid SYNAPSE_WS_TOKEN');
-        try {
-          socket.send(JSON.stringify({ type: 'ERROR', message: 'Invalid token' }));
-        } catch {
-          // ignore
+      /**
+       * Dead-man switch scoped to this session: releases if one of its devices
+       * owns the clutch, or if no other plugin is left that could release it.
+       */
+      const releaseIfOwned = (reason: DeadManReason): void => {
+        if (!session) return;
+        const otherPlugins = [...pluginClients].filter((client) => client !== socket);
+        if (clutchArbiter.isOwnedBySession(session.sessionId) || otherPlugins.length === 0) {
+          triggerDeadManSwitch(reason, session.sessionId);
         }
+      };
+
+      const rotateCoalescer = new RotateCoalescer(
+        ROTATE_COALESCE_MS,
+        ({ event, count, receivedAt }) => {
+          if (isClosed || !session) return;
+          const { sessionId } = session;
+          const offsetMs = recorder?.offsetNow();
+          const receipt: EventReceipt = {
+            receivedAt: receivedAt ?? daemonNow(),
+            sentAt: clockSync.toDaemonTime(event.timestamp),
+          };
+
+          const task = (): Promise<void> =>
+            processInboundEvent(event, count, gestureRecognizer, sessionId, {
+              offsetMs,
+              receipt,
+            }).catch((err) => {
+              logger.error({ err }, 'failed to process hardware event');
+              sendMessage(socket, {
+                type: 'ERROR',
+                code: 'PROCESSING_FAILED',
+                message: 'Failed to process hardware event',
+              });
+            });
+
+          if (!isClutchRelease(event)) {
+            inboundQueue.push(task, event.eventType === 'ROTATE');
+            return;
+          }
+          // Nothing queued could engage the clutch, so there is nothing to hand back
+          if (!inboundQueue.busy && !isClutchHeld()) {
+            gestureRecognizer.process(event);
+            clutchReleasesDroppedTotal.inc({ reason: 'NOT_HELD' });
+            logger.debug({ sessionId }, 'clutch release dropped: clutch not held');
+            return;
+          }
+          // Fast lane: handing OS control back never waits behind a backlog of dial ticks
+          const overtaken = inboundQueue.pushAhead(task);
+          if (overtaken === null) {
+            clutchReleasesDroppedTotal.inc({ reason: 'QUEUED' });
+            logger.debug({ sessionId }, 'clutch release dropped: one is already queued');
+          } else if (overtaken > 0) {
+            fastLaneReleasesTotal.inc();
+            logger.info({ overtaken, sessionId }, 'clutch release overtook queued rotations');
+          }
+        },
+      );
+      inboundQueues.set(socket, () => {
+        rotateCoalescer.flush();
+        return inboundQueue.idle();
+      });
+
+      const rejectConnection = (code: ProtocolErrorCode, message: string): void => {
+        logger.warn({ code, message }, 'client connection rejected');
+        sendMessage(socket, { type: 'ERROR', code, message });
         socket.close();
-        return;
-      }
+      };
 
-      clients.add(socket);
-      if (canSendEvents) pluginClients.add(socket);
-      logger.info({ clientCount: clients.size, role }, 'client connected');
+      const handshakeTimer = setTimeout(() => {
+        if (!session) rejectConnection('HANDSHAKE_TIMEOUT', 'No HELLO received');
+      }, HANDSHAKE_TIMEOUT_MS);
 
-      let inboundEventQueue: Promise<void> = Promise.resolve();
-      let isClosed = false;
+      const sendPing = (): void => {
+        sendMessage(socket, { type: 'PING', id: nextPingId++, daemonTime: daemonNow() });
+      };
+
+      const handlePong = (message: PongMessage, receivedAt: number): void => {
+        if (!session?.features.includes('CLOCK_SYNC')) {
+          // Heartbeat PONGs only need to arrive; the message handler already counted it
+          if (session?.features.includes('HEARTBEAT')) return;
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'FORBIDDEN',
+            message: 'Session was not granted CLOCK_SYNC or HEARTBEAT',
+          });
+          return;
+        }
+        const sample = clockSync.addSample(message.daemonTime, message.clientTime, receivedAt);
+        logger.debug(
+          { sample, estimate: clockSync.estimate(), sessionId: session.sessionId },
+          'clock sync sample',
+        );
+      };
 
-      // Send current state on connect
-      socket.send(
-        JSON.stringify({
-          type: 'STATE_UPDATE',
-          machineState: machine.getState(),
-          state: machine.getData(),
-          kernelConfig: kernelMixer.getConfig(),
-          osControlState: getOsControlState(),
+      const handleHello = (hello: HelloMessage): void => {
+        clearTimeout(handshakeTimer);
+        const result = negotiateHandshake(hello, process.env['SYNAPSE_WS_TOKEN']);
+        if (!result.ok) {
+          rejectConnection(result.code, result.message);
+          return;
+        }
+
+        session = {
+          type: 'WELCOME',
+          protocolVersion: result.protocolVersion,
+          role: result.role,
+          features: result.features,
+          topics: result.topics,
+          sessionId: randomUUID(),
           timestamp: Date.now(),
-          transcription: lastTranscription,
-        }),
-      );
+        };
+        sendMessage(socket, session);
+        clientConnectionsTotal.inc({ role: session.role });
+        connectedClients.inc({ role: session.role });
 
-      if (canSendEvents) {
-        connection.on('message', (raw) => {
-          if (isClosed) return;
-
-          let event: LogiHardwareEvent;
-          try {
-            const payload = JSON.parse(raw.toString()) as unknown;
-            event = LogiHardwareEventSchema.parse(payload);
-          } catch (err) {
-            logger.warn({ err }, 'invalid message received');
-            try {
-              socket.send(
-                JSON.stringify({ type: 'ERROR', message: 'Invalid hardware event payload' }),
-              );
-            } catch {
-              // ignore
-            }
-            return;
+        if (session.features.includes('STATE_UPDATES')) subscribeToState(socket, session);
+        if (session.features.includes('HARDWARE_EVENTS')) pluginClients.add(socket);
+        if (session.features.includes('HEARTBEAT')) heartbeat.beat();
+        if (session.features.includes('CLOCK_SYNC') || session.features.includes('HEARTBEAT')) {
+          // One PING stream serves both; heartbeat PONGs double as clock samples
+          const pingIntervalMs = session.features.includes('HEARTBEAT')
+            ? Math.min(HEARTBEAT_INTERVAL_MS, CLOCK_SYNC_INTERVAL_MS)
+            : CLOCK_SYNC_INTERVAL_MS;
+          sendPing();
+          pingTimer = setInterval(sendPing, pingIntervalMs);
+        }
+
+        logger.info(
+          {
+            clientCount: clients.size,
+            role: session.role,
+            protocolVersion: session.protocolVersion,
+            features: session.features,
+            sessionId: session.sessionId,
+            clientName: hello.clientName,
+          },
+          'client connected',
+        );
+      };
+
+      const handleHardwareEvent = (payload: unknown, receivedAt: number): void => {
+        if (!session?.features.includes('HARDWARE_EVENTS')) {
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'FORBIDDEN',
+            message: 'Session was not granted HARDWARE_EVENTS',
+          });
+          return;
+        }
+
+        const parsed = LogiHardwareEventSchema.safeParse(payload);
+        if (!parsed.success) {
+          logger.warn({ err: parsed.error }, 'invalid hardware event received');
+          invalidPayloadsTotal.inc({ message_type: 'HARDWARE_EVENT' });
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'INVALID_PAYLOAD',
+            message: 'Invalid hardware event payload',
+          });
+          return;
+        }
+
+        const event = parsed.data;
+        const action = mapHardwareEventToSynapseType(event, bindingProfile, activeAppId);
+        // A clutch release is never refused; it is how OS control gets back to the user.
+        // The fast lane keeps at most one waiting, so it cannot grow the queue.
+        const verdict: InboundVerdict =
+          action === 'SYNAPSE_CLUTCH_RELEASE'
+            ? { ok: true }
+            : inboundLimiter.admit(classifyInboundEvent(event, action), inboundQueue.depth);
+        if (!verdict.ok) {
+          inboundEventsRejectedTotal.inc({ reason: verdict.code, event_class: verdict.eventClass });
+          // One reply per run of refusals, so a flood is not answered with a flood
+          if (verdict.first) {
+            logger.warn({ verdict, sessionId: session.sessionId }, 'hardware events refused');
+            sendMessage(socket, {
+              type: 'ERROR',
+              code: verdict.code,
+              message: verdict.message,
+              retryAfterMs: verdict.retryAfterMs,
+            });
           }
+          return;
+        }
 
-          inboundEventQueue = inboundEventQueue
-            .then(() => processHardwareEvent(event))
+        hardwareEventsTotal.inc({
+          device_id: event.deviceId,
+          event_type: event.eventType,
+        });
+        rotateCoalescer.push(event, receivedAt);
+      };
+
+      const handleAppContext = (message: AppContextMessage): void => {
+        if (!session?.features.includes('APP_CONTEXT')) {
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'FORBIDDEN',
+            message: 'Session was not granted APP_CONTEXT',
+          });
+          return;
+        }
+
+        // Events already received resolve against the application they were sent from
+        rotateCoalescer.flush();
+        const { sessionId } = session;
+        // Only the latest pending switch matters; earlier ones are replaced in place
+        inboundQueue.pushLatest('APP_CONTEXT', () => applyAppContext(message.appId, sessionId));
+      };
+
+      const handleCommand = (message: CommandMessage): void => {
+        if (!session?.features.includes('COMMANDS')) {
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'FORBIDDEN',
+            message: 'Session was not granted COMMANDS',
+          });
+          return;
+        }
+
+        const { id } = message;
+        const { sessionId } = session;
+        const parsed = UiCommandSchema.safeParse(message.command);
+        if (!parsed.success) {
+          logger.warn({ err: parsed.error, id }, 'invalid ui command received');
+          invalidPayloadsTotal.inc({ message_type: 'COMMAND' });
+          sendMessage(socket, {
+            type: 'COMMAND_RESULT',
+            id,
+            ok: false,
+            error: `Invalid command: ${parsed.error.issues.map((i) => i.message).join('; ')}`,
+          });
+          return;
+        }
+
+        inboundQueue.push(() =>
+          processCommand(parsed.data, { cause: 'UI_COMMAND', sessionId })
+            .then(() => sendMessage(socket, { type: 'COMMAND_RESULT', id, ok: true }))
             .catch((err) => {
-              logger.error({ err }, 'failed to process hardware event');
-              try {
-                socket.send(
-                  JSON.stringify({ type: 'ERROR', message: 'Failed to process hardware event' }),
-                );
-              } catch {
-                // ignore
-              }
+              logger.error({ err, id }, 'failed to run ui command');
+              sendMessage(socket, {
+                type: 'COMMAND_RESULT',
+                id,
+                ok: false,
+                error: (err as Error).message,
+              });
+            }),
+        );
+      };
+
+      const handleResync = (): void => {
+        if (!session?.features.includes('STATE_UPDATES')) {
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'FORBIDDEN',
+            message: 'Session was not granted STATE_UPDATES',
+          });
+          return;
+        }
+        const subscriber = clients.get(socket);
+        if (subscriber) sendMessage(socket, subscriber.stream.snapshot(captureStateSnapshot()));
+      };
+
+      connection.on('message', (raw) => {
+        if (isClosed) return;
+        const receivedAt = daemonNow();
+        // Any traffic proves the client is alive, not just PONGs
+        if (heartbeat.running) heartbeat.beat();
+        // Queued events still drain, but nothing new is accepted
+        if (shuttingDown) return;
+
+        let message: ClientMessage;
+        try {
+          message = ClientMessageSchema.parse(JSON.parse(raw.toString()) as unknown);
+        } catch (err) {
+          logger.warn({ err }, 'invalid message received');
+          if (!session) {
+            rejectConnection('HELLO_REQUIRED', 'First message must be a valid HELLO');
+            return;
+          }
+          sendMessage(socket, {
+            type: 'ERROR',
+            code: 'INVALID_MESSAGE',
+            message: 'Invalid message',
+          });
+          return;
+        }
+
+        if (!session) {
+          if (message.type === 'HELLO') handleHello(message);
+          else rejectConnection('HELLO_REQUIRED', 'First message must be HELLO');
+          return;
+        }
+
+        switch (message.type) {
+          case 'HELLO':
+            sendMessage(socket, {
+              type: 'ERROR',
+              code: 'INVALID_MESSAGE',
+              message: 'Handshake already completed',
             });
-        });
-      }
+            break;
+          case 'HARDWARE_EVENT':
+            handleHardwareEvent(message.event, receivedAt);
+            break;
+          case 'APP_CONTEXT':
+            handleAppContext(message);
+            break;
+          case 'PONG':
+            handlePong(message, receivedAt);
+            break;
+          case 'COMMAND':
+            handleCommand(message);
+            break;
+          case 'RESYNC':
+            handleResync();
+            break;
+        }
+      });
 
       connection.on('close', () => {
         isClosed = true;
-        inboundEventQueue = Promise.resolve();
-
-        clients.delete(socket);
-        pluginClients.delete(socket);
-        logger.info({ clientCount: clients.size, role }, 'client disconnected');
-
-        // Dead-man switch: if the hardware plugin drops while clutch is engaged, release
-        if (pluginClients.size === 0 && machine.getData().isClutchEngaged) {
-          logger.warn('dead-man switch triggered — releasing clutch');
-          const ts = Date.now();
-          const deadPersona = uiBridge.getActivePersona();
-          machine.send({ type: 'CLUTCH_RELEASE' });
-          clearDemoTranscription();
-          lastTranscription = null;
-          void voicePipeline.release();
-          void uiBridge.release({ type: 'RELEASE', timestamp: ts, agentPersona: deadPersona });
-
-          broadcast({
-            type: 'STATE_UPDATE',
-            synapseType: 'DEAD_MAN_CLUTCH_RELEASE',
-            machineState: machine.getState(),
-            state: machine.getData(),
-            kernelConfig: kernelMixer.getConfig(),
-            osControlState: getOsControlState(),
-            timestamp: ts,
-            transcription: lastTranscription,
-          });
-        }
+        inboundQueues.delete(socket);
+        clearTimeout(handshakeTimer);
+        if (pingTimer !== null) clearInterval(pingTimer);
+        heartbeat.stop();
+        rotateCoalescer.dispose();
+        gestureRecognizer.reset();
+
+        const wasPlugin = pluginClients.delete(socket);
+        dropSubscriber(socket);
+        if (!session) return;
+        connectedClients.dec({ role: session.role });
+        // Focus reports are stale once no plugin is left to send them
+        if (wasPlugin && pluginClients.size === 0) activeAppId = null;
+        logger.info(
+          { clientCount: clients.size, role: session.role, sessionId: session.sessionId },
+          'client disconnected',
+        );
+
+        // Dead-man switch: if the owning plugin drops while clutch is engaged, release
+        if (wasPlugin) releaseIfOwned('PLUGIN_DISCONNECTED');
       });
     });
 
     /** Health endpoint */
     fastify.get('/health', async () => ({
       status: 'ok',
+      protocolVersion: PROTOCOL_VERSION,
       state: machine.getData(),
       kernelConfig: kernelMixer.getConfig(),
+      watchdog: stateWatchdog.status(),
+      arbitration: { policy: clutchArbiter.policy, owner: clutchArbiter.owner },
+      extensions: extensionRegistry.list(),
       timestamp: Date.now(),
     }));
+
+    /** Prometheus scrape target */
+    fastify.get('/metrics', async (_request, reply) =>
+      reply.type(METRICS_CONTENT_TYPE).send(metrics.render()),
+    );
+
+    /** Keypad macro library; edits are mounted with the audit routes below */
+    fastify.get('/macros', async () => ({ macros: macroStore.list() }));
+  });
+
+  /**
+   * The audit journal and macro edits. Like the REST API, they are only
+   * mounted when the shared token is configured, and every request needs it.
+   */
+  registerTokenOnly(app, '', readSharedToken, async (admin) => {
+    /** Audit journal entries, optionally in a time range: ?from=&to= (epoch ms), ?limit= */
+    admin.get('/audit', async (request, reply) => {
+      const query = AuditQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.code(400).send({
+          error: query.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        });
+      }
+      return { entries: queryAuditJournal(auditJournal.path, query.data) };
+    });
+
+    /** Walks the audit journal's hash chain */
+    admin.get('/audit/verify', async () => verifyAuditJournal(auditJournal.path));
+
+    admin.put<{ Params: { name: string }; Body: unknown }>(
+      '/macros/:name',
+      async (request, reply) => {
+        const body = isRecord(request.body) ? request.body : {};
+        const parsed = MacroSchema.safeParse({ ...body, name: request.params.name });
+        if (!parsed.success) {
+          return reply.code(400).send({ error: 'Invalid macro', issues: parsed.error.issues });
+        }
+        await macroStore.save(parsed.data);
+        logger.info({ macro: parsed.data.name }, 'macro saved');
+        return parsed.data;
+      },
+    );
+
+    admin.delete<{ Params: { name: string } }>('/macros/:name', async (request, reply) => {
+      if (!(await macroStore.remove(request.params.name))) {
+        return reply.code(404).send({ error: 'Unknown macro' });
+      }
+      logger.info({ macro: request.params.name }, 'macro deleted');
+      return reply.code(204).send();
+    });
+  });
+
+  /**
+   * Versioned REST API for scripts and tools. Every route requires the shared
+   * token, so the API is only mounted when one is configured.
+   */
+  const restApiMounted = registerTokenOnly(app, '/api/v1', readSharedToken, async (api) => {
+    api.get('/state', async () => snapshotState());
+
+    api.get('/kernel-config', async () => kernelMixer.getConfig());
+
+    /** Replaces the kernel config; the models follow the compute mix and cannot be chosen */
+    api.put('/kernel-config', async (request, reply) => {
+      const parsed = KernelMixConfigSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.code(400).send({
+          error: 'Invalid kernel config',
+          issues: parsed.error.issues,
+        });
+      }
+      const config = parsed.data;
+      const expectedModel = selectModel(config.computeMixWeight);
+      if (config.primaryModel !== expectedModel) {
+        return reply.code(400).send({
+          error: `primaryModel follows computeMixWeight; expected ${expectedModel}`,
+        });
+      }
+      if (
+        config.fallbackModel !== undefined &&
+        config.fallbackModel !== kernelMixer.getConfig().fallbackModel
+      ) {
+        return reply.code(400).send({ error: 'fallbackModel cannot be changed' });
+      }
+
+      await runRestChange(() => applyKernelConfig(config));
+      return kernelMixer.getConfig();
+    });
+
+    api.post<{ Body: unknown }>('/persona', async (request, reply) => {
+      const body = isRecord(request.body) ? request.body : {};
+      const parsed = UiCommandSchema.safeParse({ ...body, action: 'SWITCH_PERSONA' });
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid persona', issues: parsed.error.issues });
+      }
+      try {
+        await runRestCommand(parsed.data);
+      } catch (err) {
+        return reply.code(409).send({ error: (err as Error).message });
+      }
+      return snapshotState();
+    });
+
+    /** Emergency stop: skips the REST queue so a wedged command cannot hold it up */
+    api.post('/clutch/release', async () => {
+      await processCommand({ action: 'FORCE_RELEASE' }, REST_ORIGIN);
+      return snapshotState();
+    });
   });
+  if (!restApiMounted) {
+    logger.warn('SYNAPSE_WS_TOKEN is not set; audit routes, macro edits and /api/v1 disabled');
+  }
 
   return app;
 }
@@ -350,11 +1630,47 @@ if (process.env['NODE_ENV'] !== 'test') {
   const PORT = Number(process.env['PORT'] ?? 4040);
 
   const server = buildServer();
+
+  const shutdown = createShutdown(server);
+  let exitCode = 0;
+  /** Same routine for signals and crashes; the first trigger's reason wins */
+  const stop = (reason: ShutdownReason, code: number): void => {
+    exitCode = Math.max(exitCode, code);
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info({ reason }, 'shutting down');
+    // Last resort if closing hangs; the clutch was released long before this
+    setTimeout(() => process.exit(exitCode || 1), SHUTDOWN_DRAIN_MS * 2).unref();
+    void shutdown.run(reason).then(({ drained }) => {
+      if (!drained) logger.warn({ drainMs: SHUTDOWN_DRAIN_MS }, 'inbound events did not drain');
+      logger.info({ reason }, 'synapse-core-daemon stopped');
+      process.exit(exitCode);
+    });
+  };
+  process.once('SIGINT', () => stop('SIGINT', 0));
+  process.once('SIGTERM', () => stop('SIGTERM', 0));
+  process.on('uncaughtException', (err) => {
+    logger.fatal({ err }, 'uncaught exception');
+    stop('UNCAUGHT_EXCEPTION', 1);
+  });
+  process.on('unhandledRejection', (err) => {
+    logger.fatal({ err }, 'unhandled rejection');
+    stop('UNHANDLED_REJECTION', 1);
+  });
+
   server.listen({ port: PORT, host: '127.0.0.1' }, (err, address) => {
     if (err) {
       logger.error(err, 'failed to start server');
       process.exit(1);
     }
     logger.info({ address }, 'synapse-core-daemon started');
+
+    const replayPath = process.env['SYNAPSE_REPLAY_PATH'];
+    if (replayPath) {
+      const realtime = process.env['SYNAPSE_REPLAY_SPEED'] !== 'fast';
+      runReplay(replayPath, realtime).catch((replayErr) => {
+        logger.error({ err: replayErr }, 'replay failed');
+      });
+    }
   });
 }
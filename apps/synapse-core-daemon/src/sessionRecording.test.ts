@@ -0,0 +1,138 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { LogiHardwareEvent } from '@synapse/hardware-events';
+import { SynapseMachine } from './stateMachine';
+import {
+  SessionRecorder,
+  readRecording,
+  replayRecording,
+  type MachineSnapshot,
+} from './sessionRecording';
+
+const press: LogiHardwareEvent = {
+  timestamp: 1_700_000_000_000,
+  deviceId: 'MX_MASTER_4',
+  componentId: 'ACTIONS_RING',
+  eventType: 'PRESS',
+};
+const release: LogiHardwareEvent = { ...press, timestamp: 1_700_000_000_500, eventType: 'RELEASE' };
+
+function snapshot(machine: SynapseMachine): MachineSnapshot {
+  return { machineState: machine.getState(), state: machine.getData() };
+}
+
+/** Minimal processor mirroring the daemon's clutch handling */
+function applyToMachine(machine: SynapseMachine, event: LogiHardwareEvent): void {
+  if (event.componentId !== 'ACTIONS_RING') return;
+  machine.send(
+    event.eventType === 'PRESS' ? { type: 'CLUTCH_ENGAGE' } : { type: 'CLUTCH_RELEASE' },
+  );
+}
+
+describe('session recording', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synapse-session-'));
+    path = join(dir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function recordSession(): Promise<void> {
+    const machine = new SynapseMachine();
+    const recorder = new SessionRecorder(path, snapshot(machine));
+    for (const [i, event] of [press, release].entries()) {
+      applyToMachine(machine, event);
+      recorder.record(i * 10, event, 1, snapshot(machine));
+    }
+    await recorder.close();
+  }
+
+  it('writes a header followed by one JSON line per event', async () => {
+    await recordSession();
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0]!)).toMatchObject({ kind: 'header', machineState: 'IDLE' });
+    expect(JSON.parse(lines[1]!)).toMatchObject({
+      kind: 'event',
+      offsetMs: 0,
+      event: press,
+      machineState: 'CLUTCH_ENGAGED',
+    });
+  });
+
+  it('round-trips through readRecording', async () => {
+    await recordSession();
+    const recording = readRecording(path);
+    expect(recording.events.map((e) => e.machineState)).toEqual(['CLUTCH_ENGAGED', 'IDLE']);
+  });
+
+  it('records the foreground application each event resolved against', async () => {
+    const machine = new SynapseMachine();
+    const recorder = new SessionRecorder(path, snapshot(machine));
+    applyToMachine(machine, press);
+    recorder.record(0, press, 1, snapshot(machine), 'code');
+    await recorder.close();
+
+    expect(readRecording(path).events[0]?.appContext).toBe('code');
+  });
+
+  it('reports the line number of invalid entries', async () => {
+    await recordSession();
+    writeFileSync(path, `${readFileSync(path, 'utf8')}{"kind":"event"}\n`);
+    expect(() => readRecording(path)).toThrow(/line 4/);
+  });
+
+  it('replays without differences when behaviour is unchanged', async () => {
+    await recordSession();
+    const machine = new SynapseMachine();
+    const report = await replayRecording(readRecording(path), {
+      realtime: false,
+      initial: snapshot(machine),
+      process: async (record) => {
+        applyToMachine(machine, record.event);
+        return snapshot(machine);
+      },
+    });
+    expect(report).toEqual({ eventCount: 2, initialDiffs: [], diffs: [] });
+  });
+
+  it('reports state differences against the recording', async () => {
+    await recordSession();
+    const machine = new SynapseMachine();
+    const report = await replayRecording(readRecording(path), {
+      realtime: false,
+      initial: snapshot(machine),
+      // A regression where RELEASE no longer releases the clutch
+      process: async (record) => {
+        if (record.event.eventType === 'PRESS') applyToMachine(machine, record.event);
+        return snapshot(machine);
+      },
+    });
+    expect(report.diffs).toEqual([
+      { index: 1, field: 'machineState', expected: 'IDLE', actual: 'CLUTCH_ENGAGED' },
+      { index: 1, field: 'state.isClutchEngaged', expected: false, actual: true },
+      { index: 1, field: 'state.voicePipelineStatus', expected: 'IDLE', actual: 'LISTENING' },
+    ]);
+  });
+
+  it('honours recorded offsets in realtime mode', async () => {
+    await recordSession();
+    const machine = new SynapseMachine();
+    const start = Date.now();
+    await replayRecording(readRecording(path), {
+      realtime: true,
+      initial: snapshot(machine),
+      process: async (record) => {
+        applyToMachine(machine, record.event);
+        return snapshot(machine);
+      },
+    });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(9);
+  });
+});
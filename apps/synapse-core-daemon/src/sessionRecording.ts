@@ -0,0 +1,216 @@
+import { createWriteStream, readFileSync, type WriteStream } from 'fs';
+import { performance } from 'perf_hooks';
+import { setTimeout as sleep } from 'timers/promises';
+import { z } from 'zod';
+import {
+  LogiHardwareEventSchema,
+  SynapseStateSchema,
+  type LogiHardwareEvent,
+  type SynapseState,
+} from '@synapse/hardware-events';
+import type { SynapseStateValue } from './stateMachine.js';
+
+// ─── Recording Format ─────────────────────────────────────────────────────────
+
+const MachineStateSchema = z.enum(['IDLE', 'CLUTCH_ENGAGED', 'VOICE_ACTIVE', 'AGENT_EXECUTING']);
+
+/** First line of every recording: the state the daemon was in when recording started */
+export const RecordingHeaderSchema = z.object({
+  kind: z.literal('header'),
+  version: z.literal(1),
+  recordedAt: z.string(),
+  machineState: MachineStateSchema,
+  state: SynapseStateSchema,
+});
+export type RecordingHeader = z.infer<typeof RecordingHeaderSchema>;
+
+/**
+ * One processed inbound event and the machine state it resulted in.
+ * Events are recorded after ROTATE coalescing, so `value` may exceed the
+ * per-tick range of the device registry.
+ */
+export const RecordedEventSchema = z.object({
+  kind: z.literal('event'),
+  /** Milliseconds since recording started, taken when the event arrived */
+  offsetMs: z.number().nonnegative(),
+  event: LogiHardwareEventSchema.innerType(),
+  batchedDeltas: z.number().int().positive(),
+  /** Foreground application the event was resolved against */
+  appContext: z.string().nullable().optional(),
+  machineState: MachineStateSchema,
+  state: SynapseStateSchema,
+});
+export type RecordedEvent = z.infer<typeof RecordedEventSchema>;
+
+export interface Recording {
+  header: RecordingHeader;
+  events: RecordedEvent[];
+}
+
+export interface MachineSnapshot {
+  machineState: SynapseStateValue;
+  state: SynapseState;
+}
+
+// ─── Recorder ─────────────────────────────────────────────────────────────────
+
+/**
+ * Writes inbound hardware events and their resulting machine state to a
+ * JSONL file, one object per line. Overwrites any existing file.
+ */
+export class SessionRecorder {
+  private readonly stream: WriteStream;
+  private readonly startedAt = performance.now();
+
+  constructor(path: string, initial: MachineSnapshot) {
+    this.stream = createWriteStream(path, { flags: 'w' });
+    const header: RecordingHeader = {
+      kind: 'header',
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      ...initial,
+    };
+    this.writeLine(header);
+  }
+
+  /** Milliseconds since recording started; capture when an event arrives */
+  offsetNow(): number {
+    return Math.round((performance.now() - this.startedAt) * 1_000) / 1_000;
+  }
+
+  record(
+    offsetMs: number,
+    event: LogiHardwareEvent,
+    batchedDeltas: number,
+    result: MachineSnapshot,
+    appContext: string | null = null,
+  ): void {
+    const line: RecordedEvent = {
+      kind: 'event',
+      offsetMs,
+      event,
+      batchedDeltas,
+      appContext,
+      ...result,
+    };
+    this.writeLine(line);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+
+  private writeLine(value: RecordingHeader | RecordedEvent): void {
+    this.stream.write(`${JSON.stringify(value)}\n`);
+  }
+}
+
+/**
+ * Reads and validates a JSONL recording.
+ * Throws with the offending line number if any line is invalid.
+ */
+export function readRecording(path: string): Recording {
+  const lines = readFileSync(path, 'utf8')
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0);
+
+  const parseLine = <S extends z.ZodTypeAny>(
+    schema: S,
+    entry: { line: string; lineNumber: number } | undefined,
+  ): z.output<S> => {
+    if (!entry) throw new Error(`Invalid recording ${path}: missing header`);
+    try {
+      return schema.parse(JSON.parse(entry.line)) as z.output<S>;
+    } catch (err) {
+      throw new Error(
+        `Invalid recording ${path} at line ${entry.lineNumber}: ${(err as Error).message}`,
+      );
+    }
+  };
+
+  const [first, ...rest] = lines;
+  return {
+    header: parseLine(RecordingHeaderSchema, first),
+    events: rest.map((entry) => parseLine(RecordedEventSchema, entry)),
+  };
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+export interface ReplayDiff {
+  /** Index into Recording.events */
+  index: number;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ReplayReport {
+  eventCount: number;
+  /** Differences between the recording header and the state replay started from */
+  initialDiffs: ReplayDiff[];
+  diffs: ReplayDiff[];
+}
+
+export interface ReplayOptions {
+  /** Honour recorded offsets (true) or replay as fast as possible (false) */
+  realtime: boolean;
+  /** State the replaying daemon starts from, compared against the header */
+  initial: MachineSnapshot;
+  /** Feeds one recorded event through the daemon and returns the resulting state */
+  process: (record: RecordedEvent) => Promise<MachineSnapshot>;
+}
+
+function diffSnapshots(
+  index: number,
+  expected: MachineSnapshot,
+  actual: MachineSnapshot,
+): ReplayDiff[] {
+  const diffs: ReplayDiff[] = [];
+  if (expected.machineState !== actual.machineState) {
+    diffs.push({
+      index,
+      field: 'machineState',
+      expected: expected.machineState,
+      actual: actual.machineState,
+    });
+  }
+  for (const key of Object.keys(expected.state) as Array<keyof SynapseState>) {
+    if (expected.state[key] !== actual.state[key]) {
+      diffs.push({
+        index,
+        field: `state.${key}`,
+        expected: expected.state[key],
+        actual: actual.state[key],
+      });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Replays a recording event by event and reports every point where the
+ * resulting machine state differs from what was recorded.
+ */
+export async function replayRecording(
+  recording: Recording,
+  options: ReplayOptions,
+): Promise<ReplayReport> {
+  const report: ReplayReport = {
+    eventCount: recording.events.length,
+    initialDiffs: diffSnapshots(-1, recording.header, options.initial),
+    diffs: [],
+  };
+
+  const startedAt = performance.now();
+  for (const [index, record] of recording.events.entries()) {
+    if (options.realtime) {
+      const waitMs = record.offsetMs - (performance.now() - startedAt);
+      if (waitMs > 0) await sleep(waitMs);
+    }
+    const actual = await options.process(record);
+    report.diffs.push(...diffSnapshots(index, record, actual));
+  }
+  return report;
+}
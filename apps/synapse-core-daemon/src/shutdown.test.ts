@@ -0,0 +1,82 @@
+import { GracefulShutdown, settleWithin, type ShutdownSteps } from './shutdown';
+
+describe('GracefulShutdown', () => {
+  let calls: string[];
+  let steps: ShutdownSteps;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    calls = [];
+    steps = {
+      release: async (reason) => {
+        calls.push(`release:${reason}`);
+      },
+      notify: (reason) => {
+        calls.push(`notify:${reason}`);
+      },
+      pending: () => [],
+      close: async () => {
+        calls.push('close');
+      },
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('releases, notifies, drains, releases again and closes', async () => {
+    const shutdown = new GracefulShutdown(steps, 1_000, jest.fn());
+    await expect(shutdown.run('SIGTERM')).resolves.toEqual({ reason: 'SIGTERM', drained: true });
+    expect(calls).toEqual(['release:SIGTERM', 'notify:SIGTERM', 'release:SIGTERM', 'close']);
+  });
+
+  it('runs once however often it is triggered', async () => {
+    const shutdown = new GracefulShutdown(steps, 1_000, jest.fn());
+    expect(shutdown.started).toBe(false);
+    const first = shutdown.run('SIGINT');
+    const second = shutdown.run('UNCAUGHT_EXCEPTION');
+    expect(shutdown.started).toBe(true);
+    await expect(second).resolves.toEqual({ reason: 'SIGINT', drained: true });
+    await first;
+    expect(calls.filter((call) => call === 'close')).toHaveLength(1);
+  });
+
+  it('stops waiting for pending work at the drain deadline', async () => {
+    const shutdown = new GracefulShutdown(
+      { ...steps, pending: () => [new Promise(() => {})] },
+      1_000,
+      jest.fn(),
+    );
+    const result = shutdown.run('SIGTERM');
+    await jest.advanceTimersByTimeAsync(1_000);
+    await expect(result).resolves.toEqual({ reason: 'SIGTERM', drained: false });
+    expect(calls).toContain('close');
+  });
+
+  it('keeps going when a step fails', async () => {
+    const onError = jest.fn();
+    const failure = new Error('bridge unreachable');
+    const shutdown = new GracefulShutdown(
+      {
+        ...steps,
+        release: async () => {
+          throw failure;
+        },
+      },
+      1_000,
+      onError,
+    );
+    await shutdown.run('UNHANDLED_REJECTION');
+    expect(onError).toHaveBeenCalledWith('release', failure);
+    expect(calls).toEqual(['notify:UNHANDLED_REJECTION', 'close']);
+  });
+});
+
+describe('settleWithin', () => {
+  it('resolves true once everything settles, rejections included', async () => {
+    await expect(
+      settleWithin([Promise.resolve(1), Promise.reject(new Error('x'))], 10),
+    ).resolves.toBe(true);
+  });
+});
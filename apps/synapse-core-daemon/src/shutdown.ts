@@ -0,0 +1,86 @@
+import type { ShutdownReason } from '@synapse/hardware-events';
+
+// ─── Graceful Shutdown ────────────────────────────────────────────────────────
+
+export interface ShutdownSteps {
+  /** Priority-0 release; must leave OS control with the physical mouse */
+  release(reason: ShutdownReason): Promise<void>;
+  /** Tells clients the daemon is stopping */
+  notify(reason: ShutdownReason): void;
+  /** In-flight work to wait for, such as each socket's inbound event queue */
+  pending(): Array<Promise<unknown>>;
+  /** Stops accepting connections, closes sockets and flushes state */
+  close(): Promise<void>;
+}
+
+export type ShutdownStep = 'release' | 'notify' | 'drain' | 'close';
+
+export interface ShutdownResult {
+  reason: ShutdownReason;
+  /** False if pending work was still running at the drain deadline */
+  drained: boolean;
+}
+
+/**
+ * Runs the shutdown sequence once, whatever triggered it: release the
+ * clutch, notify clients, drain pending work for at most `drainTimeoutMs`,
+ * release again in case a drained event re-engaged, then close.
+ *
+ * A failing step is reported to `onError` and never skips the steps after
+ * it, so OS control is handed back even if the server cannot close cleanly.
+ */
+export class GracefulShutdown {
+  private running: Promise<ShutdownResult> | null = null;
+
+  constructor(
+    private readonly steps: ShutdownSteps,
+    private readonly drainTimeoutMs: number,
+    private readonly onError: (step: ShutdownStep, err: unknown) => void,
+  ) {}
+
+  get started(): boolean {
+    return this.running !== null;
+  }
+
+  /** Starts the sequence; later calls return the first call's result */
+  run(reason: ShutdownReason): Promise<ShutdownResult> {
+    this.running ??= this.sequence(reason);
+    return this.running;
+  }
+
+  private async sequence(reason: ShutdownReason): Promise<ShutdownResult> {
+    await this.attempt('release', () => this.steps.release(reason));
+    await this.attempt('notify', () => this.steps.notify(reason));
+    let drained = false;
+    await this.attempt('drain', async () => {
+      drained = await settleWithin(this.steps.pending(), this.drainTimeoutMs);
+    });
+    await this.attempt('release', () => this.steps.release(reason));
+    await this.attempt('close', () => this.steps.close());
+    return { reason, drained };
+  }
+
+  private async attempt(step: ShutdownStep, fn: () => unknown): Promise<void> {
+    try {
+      await fn();
+    } catch (err) {
+      this.onError(step, err);
+    }
+  }
+}
+
+/** Resolves true once every promise has settled, or false at the deadline */
+export async function settleWithin(
+  promises: Array<Promise<unknown>>,
+  timeoutMs: number,
+): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([Promise.allSettled(promises).then(() => true), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -33,6 +33,29 @@ describe('SynapseMachine', () => {
     expect(machine.getState()).toBe('AGENT_EXECUTING');
   });
 
+  it('returns to CLUTCH_ENGAGED when the agent completes or fails', () => {
+    const machine = new SynapseMachine();
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'AGENT_READY' });
+    machine.send({ type: 'AGENT_COMPLETE' });
+    expect(machine.getState()).toBe('CLUTCH_ENGAGED');
+    expect(machine.getData().voicePipelineStatus).toBe('LISTENING');
+
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'AGENT_FAILED' });
+    expect(machine.getState()).toBe('CLUTCH_ENGAGED');
+    expect(machine.getData().isClutchEngaged).toBe(true);
+  });
+
+  it('ignores agent results once the clutch is released', () => {
+    const machine = new SynapseMachine();
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'CLUTCH_RELEASE' });
+    machine.send({ type: 'AGENT_COMPLETE' });
+    expect(machine.getState()).toBe('IDLE');
+  });
+
   it('CLUTCH_RELEASE from CLUTCH_ENGAGED returns to IDLE (priority 0)', () => {
     const machine = new SynapseMachine();
     machine.send({ type: 'CLUTCH_ENGAGE' });
@@ -86,4 +109,36 @@ describe('SynapseMachine', () => {
     machine.send({ type: 'KEYPAD_SWITCH', persona: 'NAVIGATOR' });
     expect(machine.getData().activeAgentContext).toBe('NAVIGATOR');
   });
+
+  it('KEYPAD_SWITCH is ignored while the agent is listening or executing', () => {
+    const machine = new SynapseMachine();
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'KEYPAD_SWITCH', persona: 'NAVIGATOR' });
+    expect(machine.getData().activeAgentContext).toBe('CODER');
+  });
+
+  it('COMPUTE_MIX_SET sets an absolute clamped computeMixWeight in any state', () => {
+    const machine = new SynapseMachine();
+    machine.send({ type: 'COMPUTE_MIX_SET', weight: 0.73 });
+    expect(machine.getData().computeMixWeight).toBe(0.73);
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'COMPUTE_MIX_SET', weight: 1.4 });
+    expect(machine.getData().computeMixWeight).toBe(1);
+  });
+
+  it('notifies transition listeners only when the state changes', () => {
+    const machine = new SynapseMachine();
+    const transitions: string[] = [];
+    const unsubscribe = machine.onTransition((state, previous) =>
+      transitions.push(`${previous}->${state}`),
+    );
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'DIAL_COMPUTE', delta: 1 });
+    machine.send({ type: 'VOICE_READY' });
+    unsubscribe();
+    machine.send({ type: 'CLUTCH_RELEASE' });
+    expect(transitions).toEqual(['IDLE->CLUTCH_ENGAGED', 'CLUTCH_ENGAGED->VOICE_ACTIVE']);
+  });
 });
@@ -13,9 +13,14 @@ export type SynapseMachineEvent =
   | { type: 'CLUTCH_RELEASE' }
   | { type: 'VOICE_READY' }
   | { type: 'AGENT_READY' }
+  | { type: 'AGENT_COMPLETE' }
+  | { type: 'AGENT_FAILED' }
   | { type: 'DIAL_COMPUTE'; delta: number }
+  | { type: 'COMPUTE_MIX_SET'; weight: number }
   | { type: 'KEYPAD_SWITCH'; persona: 'CODER' | 'NAVIGATOR' | 'RESEARCHER' };
 
+export type TransitionListener = (state: SynapseStateValue, previous: SynapseStateValue) => void;
+
 // ─── Synapse State Machine (no external XState dep for core logic) ─────────────
 
 /**
@@ -30,6 +35,7 @@ export class SynapseMachine {
     computeMixWeight: 0.5,
     voicePipelineStatus: 'IDLE',
   };
+  private readonly transitionListeners = new Set<TransitionListener>();
 
   getState(): SynapseStateValue {
     return this.stateValue;
@@ -39,7 +45,25 @@ export class SynapseMachine {
     return { ...this.data };
   }
 
+  /**
+   * Calls `listener` after every event that changes the state value.
+   * Returns a function that removes it.
+   */
+  onTransition(listener: TransitionListener): () => void {
+    this.transitionListeners.add(listener);
+    return () => this.transitionListeners.delete(listener);
+  }
+
   send(event: SynapseMachineEvent): SynapseStateValue {
+    const previous = this.stateValue;
+    const next = this.handle(event);
+    if (next !== previous) {
+      for (const listener of this.transitionListeners) listener(next, previous);
+    }
+    return next;
+  }
+
+  private handle(event: SynapseMachineEvent): SynapseStateValue {
     switch (this.stateValue) {
       case 'IDLE':
         return this.handleIdle(event);
@@ -68,6 +92,9 @@ export class SynapseMachine {
       case 'DIAL_COMPUTE':
         this.applyDialCompute(event.delta);
         break;
+      case 'COMPUTE_MIX_SET':
+        this.setComputeMix(event.weight);
+        break;
       case 'KEYPAD_SWITCH':
         this.data = { ...this.data, activeAgentContext: event.persona };
         break;
@@ -87,6 +114,9 @@ export class SynapseMachine {
       case 'DIAL_COMPUTE':
         this.applyDialCompute(event.delta);
         break;
+      case 'COMPUTE_MIX_SET':
+        this.setComputeMix(event.weight);
+        break;
       case 'KEYPAD_SWITCH':
         this.data = { ...this.data, activeAgentContext: event.persona };
         break;
@@ -103,9 +133,15 @@ export class SynapseMachine {
       case 'AGENT_READY':
         this.stateValue = 'AGENT_EXECUTING';
         break;
+      case 'AGENT_FAILED':
+        this.resumeListening();
+        break;
       case 'DIAL_COMPUTE':
         this.applyDialCompute(event.delta);
         break;
+      case 'COMPUTE_MIX_SET':
+        this.setComputeMix(event.weight);
+        break;
     }
     return this.stateValue;
   }
@@ -116,9 +152,16 @@ export class SynapseMachine {
         // Priority 0 interrupt — hard stop
         this.releaseClutch();
         break;
+      case 'AGENT_COMPLETE':
+      case 'AGENT_FAILED':
+        this.resumeListening();
+        break;
       case 'DIAL_COMPUTE':
         this.applyDialCompute(event.delta);
         break;
+      case 'COMPUTE_MIX_SET':
+        this.setComputeMix(event.weight);
+        break;
     }
     return this.stateValue;
   }
@@ -132,9 +175,19 @@ export class SynapseMachine {
     };
   }
 
+  /** Back to listening for the next instruction; the clutch is still held */
+  private resumeListening(): void {
+    this.stateValue = 'CLUTCH_ENGAGED';
+    this.data = { ...this.data, voicePipelineStatus: 'LISTENING' };
+  }
+
   private applyDialCompute(delta: number): void {
     const step = 0.05;
-    const newWeight = Math.min(1, Math.max(0, this.data.computeMixWeight + delta * step));
+    this.setComputeMix(this.data.computeMixWeight + delta * step);
+  }
+
+  private setComputeMix(weight: number): void {
+    const newWeight = Math.min(1, Math.max(0, weight));
     this.data = { ...this.data, computeMixWeight: newWeight };
   }
 }
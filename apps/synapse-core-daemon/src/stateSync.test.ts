@@ -0,0 +1,92 @@
+import { applyMergePatch, type StateSnapshot } from '@synapse/hardware-events';
+import { ALL_STATE_TOPICS, StateStream } from './stateSync';
+
+describe('StateStream', () => {
+  let live: StateSnapshot;
+
+  beforeEach(() => {
+    live = {
+      machineState: 'IDLE',
+      state: {
+        isClutchEngaged: false,
+        activeAgentContext: 'CODER',
+        computeMixWeight: 0.5,
+        voicePipelineStatus: 'IDLE',
+      },
+      kernelConfig: { computeMixWeight: 0.5, contextWindowTokens: 32_000 },
+      osControlState: { owner: 'PHYSICAL_MOUSE', handedOffAt: undefined },
+      transcription: null,
+      appContext: null,
+    };
+  });
+
+  const turnDial = (weight: number): void => {
+    live = {
+      ...live,
+      state: { ...live.state, computeMixWeight: weight },
+      kernelConfig: { computeMixWeight: weight, contextWindowTokens: 32_000 },
+    };
+  };
+
+  it('numbers updates and patches only what changed', () => {
+    const stream = new StateStream(ALL_STATE_TOPICS, true);
+    const initial = stream.snapshot(live, 1_000);
+    expect(initial).toMatchObject({ type: 'STATE_UPDATE', seq: 1, timestamp: 1_000 });
+    expect(initial.osControlState).toEqual({ owner: 'PHYSICAL_MOUSE' });
+
+    turnDial(0.55);
+    const delta = stream.next(live, { synapseType: 'SYNAPSE_DIAL_COMPUTE_MIX', timestamp: 2_000 });
+    expect(delta).toEqual({
+      type: 'STATE_DELTA',
+      seq: 2,
+      synapseType: 'SYNAPSE_DIAL_COMPUTE_MIX',
+      timestamp: 2_000,
+      patch: { state: { computeMixWeight: 0.55 }, kernelConfig: { computeMixWeight: 0.55 } },
+    });
+    const patch = delta?.type === 'STATE_DELTA' ? delta.patch : {};
+    expect(applyMergePatch(initial.state, patch['state'])).toEqual(live.state);
+  });
+
+  it('trims updates to the subscribed topics and skips the ones that miss them', () => {
+    const stream = new StateStream(['KERNEL'], false);
+    expect(stream.snapshot(live, 1_000)).toEqual({
+      type: 'STATE_UPDATE',
+      kernelConfig: live.kernelConfig,
+      seq: 1,
+      timestamp: 1_000,
+    });
+
+    live = { ...live, transcription: { transcript: 'open the docs' } };
+    expect(stream.next(live, { synapseType: 'TRANSCRIPTION', timestamp: 2_000 })).toBeNull();
+
+    turnDial(0.6);
+    expect(stream.next(live, { latencyMs: 3, timestamp: 3_000 })).toMatchObject({
+      seq: 2,
+      kernelConfig: { computeMixWeight: 0.6 },
+    });
+  });
+
+  it('only sends clutch changes while congested and catches up afterwards', () => {
+    const stream = new StateStream(ALL_STATE_TOPICS, true);
+    stream.snapshot(live);
+
+    turnDial(0.6);
+    expect(stream.next(live, { timestamp: 2_000 }, true)).toBeNull();
+    expect(stream.behind).toBe(true);
+
+    live = { ...live, state: { ...live.state, isClutchEngaged: true } };
+    expect(stream.next(live, { timestamp: 3_000 }, true)).toMatchObject({
+      seq: 2,
+      patch: { state: { isClutchEngaged: true, computeMixWeight: 0.6 } },
+    });
+    expect(stream.behind).toBe(false);
+
+    turnDial(0.7);
+    stream.next(live, { timestamp: 4_000 }, true);
+    expect(stream.catchUp(live, 5_000)).toMatchObject({
+      seq: 3,
+      patch: { state: { computeMixWeight: 0.7 } },
+    });
+    expect(stream.catchUp(live)).toBeNull();
+  });
+});
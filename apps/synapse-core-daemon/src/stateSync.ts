@@ -0,0 +1,128 @@
+import {
+  StateTopicSchema,
+  createMergePatch,
+  type StateDeltaMessage,
+  type StateSnapshot,
+  type StateTopic,
+  type StateUpdateCause,
+  type StateUpdateMessage,
+} from '@synapse/hardware-events';
+
+// ─── State Topics ─────────────────────────────────────────────────────────────
+
+export const ALL_STATE_TOPICS: readonly StateTopic[] = StateTopicSchema.options;
+
+/** Topic each snapshot field belongs to */
+const SNAPSHOT_TOPICS: Record<keyof StateSnapshot, StateTopic> = {
+  machineState: 'STATE',
+  state: 'STATE',
+  osControlState: 'STATE',
+  appContext: 'STATE',
+  kernelConfig: 'KERNEL',
+  transcription: 'TRANSCRIPTION',
+};
+
+/** Topic each cause field belongs to; every client gets the timestamp */
+const CAUSE_TOPICS: Record<Exclude<keyof StateUpdateCause, 'timestamp'>, StateTopic> = {
+  synapseType: 'STATE',
+  agentRun: 'STATE',
+  deadManReason: 'STATE',
+  timedOutState: 'STATE',
+  latencyMs: 'METRICS',
+  latency: 'METRICS',
+  traceId: 'METRICS',
+};
+
+type StateView = Partial<StateSnapshot>;
+type CauseView = Partial<StateUpdateCause>;
+
+function pick<T extends object>(
+  source: T,
+  topicOf: Partial<Record<keyof T, StateTopic>>,
+  topics: readonly StateTopic[],
+): Partial<T> {
+  const picked: Partial<T> = {};
+  for (const key of Object.keys(source) as Array<keyof T>) {
+    const topic = topicOf[key];
+    if (topic !== undefined && topics.includes(topic)) picked[key] = source[key];
+  }
+  return picked;
+}
+
+/** Strips undefined fields so views diff the way they serialize */
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** What has to reach even a congested client: the clutch and who holds OS control */
+function clutchOf(view: StateView | null): string {
+  const owner = (view?.osControlState as { owner?: unknown } | null | undefined)?.owner;
+  return JSON.stringify([view?.state?.isClutchEngaged, owner]);
+}
+
+// ─── Per-Client State Stream ──────────────────────────────────────────────────
+
+export type StateMessage = StateUpdateMessage | StateDeltaMessage;
+
+/**
+ * One client's view of the daemon state. Updates are trimmed to the client's
+ * topics and numbered per client, then sent whole (STATE_UPDATE) or, with
+ * `deltas`, as a patch against the last state this client was sent
+ * (STATE_DELTA). Updates that touch none of its topics are not sent at all.
+ *
+ * A congested client is only sent clutch changes. Skipped updates are
+ * folded into the next message, so its sequence numbers never gap.
+ */
+export class StateStream {
+  private seq = 0;
+  private last: StateView | null = null;
+  private skipped = false;
+
+  constructor(
+    readonly topics: readonly StateTopic[],
+    private readonly deltas: boolean,
+  ) {}
+
+  /** Whether updates were skipped since the last message */
+  get behind(): boolean {
+    return this.skipped;
+  }
+
+  /** The whole state, for a client that connects or resyncs; deltas continue from it */
+  snapshot(live: StateSnapshot, timestamp = Date.now()): StateUpdateMessage {
+    this.last = this.view(live);
+    this.seq += 1;
+    this.skipped = false;
+    return { type: 'STATE_UPDATE', ...this.last, seq: this.seq, timestamp };
+  }
+
+  /** The message for an update, or null if the client is not sent one */
+  next(live: StateSnapshot, cause: StateUpdateCause, congested = false): StateMessage | null {
+    const next = this.view(live);
+    if (congested && clutchOf(next) === clutchOf(this.last)) {
+      this.skipped = true;
+      return null;
+    }
+    this.skipped = false;
+
+    const patch = this.last ? createMergePatch(this.last, next) : next;
+    const causeView: CauseView = toJson(pick(cause, CAUSE_TOPICS, this.topics));
+    if (Object.keys(patch).length === 0 && Object.keys(causeView).length === 0) return null;
+
+    this.last = next;
+    this.seq += 1;
+    const { timestamp } = cause;
+    return this.deltas
+      ? { type: 'STATE_DELTA', ...causeView, seq: this.seq, patch, timestamp }
+      : { type: 'STATE_UPDATE', ...next, ...causeView, seq: this.seq, timestamp };
+  }
+
+  /** Brings a client that had updates skipped up to date, or null if it is not behind */
+  catchUp(live: StateSnapshot, timestamp = Date.now()): StateMessage | null {
+    return this.skipped ? this.next(live, { timestamp }) : null;
+  }
+
+  private view(live: StateSnapshot): StateView {
+    return toJson(pick(live, SNAPSHOT_TOPICS, this.topics));
+  }
+}
@@ -0,0 +1,137 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileTraceExporter,
+  OtlpHttpTraceExporter,
+  Tracer,
+  type OtlpTraceRequest,
+  type TraceExporter,
+} from './tracing';
+
+class MemoryExporter implements TraceExporter {
+  readonly requests: OtlpTraceRequest[] = [];
+
+  async export(request: OtlpTraceRequest): Promise<void> {
+    this.requests.push(request);
+  }
+}
+
+function spansOf(request: OtlpTraceRequest | undefined) {
+  return request?.resourceSpans[0]?.scopeSpans[0]?.spans ?? [];
+}
+
+describe('Tracer', () => {
+  let clock: number;
+  let exporter: MemoryExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    clock = 1_700_000_000_000;
+    exporter = new MemoryExporter();
+    tracer = new Tracer({
+      serviceName: 'synapse-core-daemon',
+      exporters: [exporter],
+      onError: (err) => {
+        throw err;
+      },
+      now: () => clock,
+    });
+  });
+
+  it('exports parented spans as OTLP JSON', async () => {
+    const root = tracer.startTrace('hardware_event', { 'synapse.type': 'SYNAPSE_CLUTCH_ENGAGE' });
+    clock += 1;
+    root.measure('machine_transition', () => {
+      clock += 0.25;
+    });
+    await root.measure('voice', async () => {
+      clock += 12.5;
+    });
+    root.end();
+    await tracer.flush();
+
+    const request = exporter.requests[0];
+    expect(request?.resourceSpans[0]?.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'synapse-core-daemon' } },
+    ]);
+    const [transition, voice, hardwareEvent] = spansOf(request);
+    expect(hardwareEvent).toMatchObject({
+      traceId: root.traceId,
+      name: 'hardware_event',
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000013750000',
+      attributes: [{ key: 'synapse.type', value: { stringValue: 'SYNAPSE_CLUTCH_ENGAGE' } }],
+      status: { code: 1 },
+    });
+    expect(hardwareEvent).not.toHaveProperty('parentSpanId');
+    expect(transition).toMatchObject({
+      parentSpanId: root.spanId,
+      startTimeUnixNano: '1700000000001000000',
+      endTimeUnixNano: '1700000000001250000',
+    });
+    expect(voice?.traceId).toBe(root.traceId);
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('marks spans whose stage throws as failed', async () => {
+    const root = tracer.startTrace('hardware_event');
+    await expect(
+      root.measure('bridge', async () => {
+        throw new Error('bridge down');
+      }),
+    ).rejects.toThrow('bridge down');
+    await tracer.flush();
+
+    expect(spansOf(exporter.requests[0])[0]?.status).toEqual({ code: 2, message: 'bridge down' });
+  });
+
+  it('drops spans when no exporter is configured', async () => {
+    const idle = new Tracer({ serviceName: 's', exporters: [], onError: jest.fn() });
+    const root = idle.startTrace('hardware_event');
+    root.end();
+    expect(idle.recording).toBe(false);
+    await expect(idle.flush()).resolves.toBeUndefined();
+  });
+});
+
+describe('trace exporters', () => {
+  const request: OtlpTraceRequest = { resourceSpans: [] };
+
+  it('appends one request per line to a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synapse-traces-'));
+    try {
+      const path = join(dir, 'nested', 'traces.jsonl');
+      const exporter = new FileTraceExporter(path);
+      await exporter.export(request);
+      await exporter.export(request);
+      expect(
+        readFileSync(path, 'utf8')
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line)),
+      ).toEqual([request, request]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('posts to an OTLP/HTTP collector and surfaces failures', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: false, status: 503 });
+    const exporter = new OtlpHttpTraceExporter(
+      'http://127.0.0.1:4318/v1/traces',
+      fetchImpl as unknown as typeof fetch,
+    );
+
+    await exporter.export(request);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'http://127.0.0.1:4318/v1/traces',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify(request) }),
+    );
+    await expect(exporter.export(request)).rejects.toThrow(/responded 503/);
+  });
+});
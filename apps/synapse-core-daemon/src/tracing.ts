@@ -0,0 +1,300 @@
+import { randomBytes } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { daemonNow } from './clockSync.js';
+
+// ─── Spans ────────────────────────────────────────────────────────────────────
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Daemon wall-clock milliseconds, sub-millisecond precision */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  error?: string;
+}
+
+/**
+ * One timed stage of a trace. Children share the trace id; ending a span
+ * hands it to the tracer for export.
+ */
+export class Span {
+  private readonly attributes: SpanAttributes;
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly traceId: string,
+    readonly spanId: string,
+    readonly parentSpanId: string | undefined,
+    readonly name: string,
+    private readonly startTime: number,
+    attributes: SpanAttributes = {},
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  child(name: string, attributes?: SpanAttributes): Span {
+    return new Span(
+      this.tracer,
+      this.traceId,
+      randomBytes(8).toString('hex'),
+      this.spanId,
+      name,
+      this.tracer.now(),
+      attributes,
+    );
+  }
+
+  /**
+   * Runs `fn` inside a child span, ending it when `fn` returns or, for a
+   * promise, settles. A throw or rejection marks the span as failed.
+   */
+  measure<T>(name: string, fn: (span: Span) => T, attributes?: SpanAttributes): T {
+    const span = this.child(name, attributes);
+    let result: T;
+    try {
+      result = fn(span);
+    } catch (err) {
+      span.end(err);
+      throw err;
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        (value: unknown) => {
+          span.end();
+          return value;
+        },
+        (err: unknown) => {
+          span.end(err);
+          throw err;
+        },
+      ) as T;
+    }
+    span.end();
+    return result;
+  }
+
+  /** Ends the span; later calls are ignored */
+  end(error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.tracer.record({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      startTime: this.startTime,
+      endTime: this.tracer.now(),
+      attributes: this.attributes,
+      ...(error !== undefined
+        ? { error: error instanceof Error ? error.message : String(error) }
+        : {}),
+    });
+  }
+}
+
+// ─── OTLP JSON ────────────────────────────────────────────────────────────────
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** SPAN_KIND_INTERNAL */
+  kind: 1;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  /** 1 = OK, 2 = ERROR */
+  status: { code: 1 | 2; message?: string };
+}
+
+/** OTLP/HTTP JSON ExportTraceServiceRequest */
+export interface OtlpTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toKeyValues(attributes: SpanAttributes): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/** Milliseconds to an integer nanosecond string without losing sub-ms precision */
+function toUnixNano(ms: number): string {
+  const wholeMs = Math.floor(ms);
+  return (BigInt(wholeMs) * 1_000_000n + BigInt(Math.round((ms - wholeMs) * 1e6))).toString();
+}
+
+export function toOtlpTraceRequest(
+  spans: readonly SpanRecord[],
+  serviceName: string,
+): OtlpTraceRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toKeyValues({ 'service.name': serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: serviceName },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: 1,
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toKeyValues(span.attributes),
+              status: span.error === undefined ? { code: 1 } : { code: 2, message: span.error },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// ─── Exporters ────────────────────────────────────────────────────────────────
+
+export interface TraceExporter {
+  export(request: OtlpTraceRequest): Promise<void>;
+}
+
+/** Appends one OTLP JSON request per line */
+export class FileTraceExporter implements TraceExporter {
+  constructor(private readonly path: string) {}
+
+  async export(request: OtlpTraceRequest): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(request)}\n`, 'utf8');
+  }
+}
+
+/** POSTs to an OTLP/HTTP collector, e.g. http://127.0.0.1:4318/v1/traces */
+export class OtlpHttpTraceExporter implements TraceExporter {
+  constructor(
+    private readonly url: string,
+    private readonly fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  async export(request: OtlpTraceRequest): Promise<void> {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP collector ${this.url} responded ${response.status}`);
+    }
+  }
+}
+
+// ─── Tracer ───────────────────────────────────────────────────────────────────
+
+export interface TracerOptions {
+  serviceName: string;
+  /** No exporters: trace ids are still issued, but spans are dropped */
+  exporters: readonly TraceExporter[];
+  /** Called when an export fails; the batch is dropped */
+  onError: (err: Error) => void;
+  /** How long finished spans are batched before export */
+  flushIntervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Issues traces and batches their finished spans for export, off the event
+ * path: recording a span never waits on I/O.
+ */
+export class Tracer {
+  readonly now: () => number;
+  private buffer: SpanRecord[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pendingExport: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: TracerOptions) {
+    this.now = options.now ?? daemonNow;
+  }
+
+  get recording(): boolean {
+    return this.options.exporters.length > 0;
+  }
+
+  /** Starts the root span of a new trace, optionally backdated to `startTime` */
+  startTrace(name: string, attributes?: SpanAttributes, startTime = this.now()): Span {
+    return new Span(
+      this,
+      randomBytes(16).toString('hex'),
+      randomBytes(8).toString('hex'),
+      undefined,
+      name,
+      startTime,
+      attributes,
+    );
+  }
+
+  /** Called by Span.end() */
+  record(span: SpanRecord): void {
+    if (!this.recording) return;
+    this.buffer.push(span);
+    if (this.timer !== null) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.options.flushIntervalMs ?? 1_000);
+    this.timer.unref();
+  }
+
+  /** Exports buffered spans now; resolves once every exporter has finished */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.buffer.length === 0) return this.pendingExport;
+
+    const request = toOtlpTraceRequest(this.buffer, this.options.serviceName);
+    this.buffer = [];
+    // Chained so batches reach each exporter in order
+    this.pendingExport = this.pendingExport
+      .then(() =>
+        Promise.all(
+          this.options.exporters.map((exporter) =>
+            exporter.export(request).catch((err: Error) => this.options.onError(err)),
+          ),
+        ),
+      )
+      .then(() => undefined);
+    return this.pendingExport;
+  }
+}
@@ -0,0 +1,101 @@
+import { SynapseMachine } from './stateMachine';
+import { DEFAULT_STATE_TIMEOUTS, StateWatchdog, resolveStateTimeouts } from './watchdog';
+
+describe('StateWatchdog', () => {
+  let now: number;
+  let timeouts: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    timeouts = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number): void => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  const watch = (machine: SynapseMachine): StateWatchdog => {
+    const watchdog = new StateWatchdog(
+      { CLUTCH_ENGAGED: 10_000, VOICE_ACTIVE: 2_000, AGENT_EXECUTING: 0 },
+      (state, timeoutMs) => timeouts.push(`${state}:${timeoutMs}`),
+      () => now,
+    );
+    machine.onTransition((state) => watchdog.observe(state));
+    return watchdog;
+  };
+
+  it('fires when a state outlives its timeout', () => {
+    const machine = new SynapseMachine();
+    const watchdog = watch(machine);
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'VOICE_READY' });
+    advance(1_500);
+    expect(watchdog.status()).toMatchObject({ state: 'VOICE_ACTIVE', remainingMs: 500 });
+
+    advance(500);
+    expect(timeouts).toEqual(['VOICE_ACTIVE:2000']);
+  });
+
+  it('keeps the clutch-hold deadline through agent runs and disarms in IDLE', () => {
+    const machine = new SynapseMachine();
+    const watchdog = watch(machine);
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    advance(4_000);
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'AGENT_FAILED' });
+    advance(4_000);
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'AGENT_READY' });
+    machine.send({ type: 'AGENT_COMPLETE' });
+    expect(watchdog.status()).toMatchObject({ state: 'CLUTCH_ENGAGED', remainingMs: 2_000 });
+
+    advance(1_999);
+    expect(timeouts).toEqual([]);
+    advance(1);
+    expect(timeouts).toEqual(['CLUTCH_ENGAGED:10000']);
+  });
+
+  it('starts a fresh hold after the clutch is released', () => {
+    const machine = new SynapseMachine();
+    const watchdog = watch(machine);
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    advance(9_000);
+    machine.send({ type: 'CLUTCH_RELEASE' });
+    advance(60_000);
+    expect(timeouts).toEqual([]);
+    expect(watchdog.status()).toMatchObject({ state: null, remainingMs: null });
+
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    advance(9_000);
+    expect(timeouts).toEqual([]);
+  });
+
+  it('never fires for a disabled state, though the hold still bounds it', () => {
+    const machine = new SynapseMachine();
+    const watchdog = watch(machine);
+    machine.send({ type: 'CLUTCH_ENGAGE' });
+    machine.send({ type: 'VOICE_READY' });
+    machine.send({ type: 'AGENT_READY' });
+    expect(watchdog.status()).toMatchObject({ state: 'AGENT_EXECUTING', remainingMs: 10_000 });
+    advance(600_000);
+    expect(timeouts).toEqual(['CLUTCH_ENGAGED:10000']);
+  });
+});
+
+describe('resolveStateTimeouts', () => {
+  it('reads overrides and rejects invalid values', () => {
+    expect(resolveStateTimeouts({})).toEqual(DEFAULT_STATE_TIMEOUTS);
+    expect(resolveStateTimeouts({ SYNAPSE_AGENT_TIMEOUT_MS: '0' })).toMatchObject({
+      AGENT_EXECUTING: 0,
+    });
+    expect(() => resolveStateTimeouts({ SYNAPSE_MAX_CLUTCH_HOLD_MS: '-5' })).toThrow(
+      /SYNAPSE_MAX_CLUTCH_HOLD_MS/,
+    );
+  });
+});
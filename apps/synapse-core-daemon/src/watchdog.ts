@@ -0,0 +1,116 @@
+import { daemonNow } from './clockSync.js';
+import type { SynapseStateValue } from './stateMachine.js';
+
+// ─── Per-State Watchdog ───────────────────────────────────────────────────────
+
+/** States in which the agent, not the user, may be holding OS control */
+export type WatchedState = Exclude<SynapseStateValue, 'IDLE'>;
+
+/** Longest time the machine may stay in each watched state; 0 disables */
+export type StateTimeouts = Record<WatchedState, number>;
+
+export const DEFAULT_STATE_TIMEOUTS: StateTimeouts = {
+  CLUTCH_ENGAGED: 300_000,
+  VOICE_ACTIVE: 30_000,
+  AGENT_EXECUTING: 120_000,
+};
+
+/** Reads overrides from the environment, falling back to the defaults */
+export function resolveStateTimeouts(env: Record<string, string | undefined>): StateTimeouts {
+  const read = (name: string, fallback: number): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative number of milliseconds, got "${raw}"`);
+    }
+    return value;
+  };
+  return {
+    CLUTCH_ENGAGED: read('SYNAPSE_MAX_CLUTCH_HOLD_MS', DEFAULT_STATE_TIMEOUTS.CLUTCH_ENGAGED),
+    VOICE_ACTIVE: read('SYNAPSE_VOICE_TIMEOUT_MS', DEFAULT_STATE_TIMEOUTS.VOICE_ACTIVE),
+    AGENT_EXECUTING: read('SYNAPSE_AGENT_TIMEOUT_MS', DEFAULT_STATE_TIMEOUTS.AGENT_EXECUTING),
+  };
+}
+
+export interface WatchdogStatus {
+  timeoutsMs: StateTimeouts;
+  /** Watched state the machine is in, or null when IDLE */
+  state: WatchedState | null;
+  /** Time until the watchdog fires; null when nothing is armed */
+  remainingMs: number | null;
+}
+
+interface ArmedTimeout {
+  deadline: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Bounds how long the agent may hold OS control. `observe()` is called on
+ * every transition. Leaving IDLE starts the CLUTCH_ENGAGED timeout, which
+ * covers the whole hold: VOICE_ACTIVE and AGENT_EXECUTING do not restart it,
+ * and only the return to IDLE clears it. Entering VOICE_ACTIVE or
+ * AGENT_EXECUTING also arms that state's own timeout until the next
+ * transition. Whichever fires first calls `onTimeout` once.
+ */
+export class StateWatchdog {
+  private state: WatchedState | null = null;
+  private hold: ArmedTimeout | null = null;
+  private stay: ArmedTimeout | null = null;
+
+  constructor(
+    private readonly timeouts: StateTimeouts,
+    private readonly onTimeout: (state: WatchedState, timeoutMs: number) => void,
+    private readonly now: () => number = daemonNow,
+  ) {}
+
+  observe(state: SynapseStateValue): void {
+    if (state === 'IDLE') {
+      this.stop();
+      return;
+    }
+    this.clear(this.stay);
+    this.stay = null;
+    if (this.state === null) this.hold = this.arm('CLUTCH_ENGAGED');
+    this.state = state;
+    if (state !== 'CLUTCH_ENGAGED') this.stay = this.arm(state);
+  }
+
+  status(): WatchdogStatus {
+    const deadlines = [this.hold, this.stay].flatMap((armed) => (armed ? [armed.deadline] : []));
+    return {
+      timeoutsMs: { ...this.timeouts },
+      state: this.state,
+      remainingMs: deadlines.length === 0 ? null : Math.max(0, Math.min(...deadlines) - this.now()),
+    };
+  }
+
+  stop(): void {
+    this.disarm();
+    this.state = null;
+  }
+
+  private arm(timedOut: WatchedState): ArmedTimeout | null {
+    const timeoutMs = this.timeouts[timedOut];
+    if (timeoutMs <= 0) return null;
+    return {
+      deadline: this.now() + timeoutMs,
+      timer: setTimeout(() => {
+        this.disarm();
+        this.onTimeout(timedOut, timeoutMs);
+      }, timeoutMs),
+    };
+  }
+
+  private disarm(): void {
+    this.clear(this.hold);
+    this.clear(this.stay);
+    this.hold = null;
+    this.stay = null;
+  }
+
+  private clear(armed: ArmedTimeout | null): void {
+    if (armed) clearTimeout(armed.timer);
+  }
+}
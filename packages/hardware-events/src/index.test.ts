@@ -3,6 +3,26 @@ import {
   SynapseStateSchema,
   SynapseEventSchema,
   mapHardwareEventToSynapseType,
+  resolveSynapseEvent,
+  resolveBinding,
+  GestureRecognizer,
+  DEVICE_REGISTRY,
+  buildManifestDevices,
+  getComponentCapabilities,
+  BindingProfileSchema,
+  DEFAULT_BINDING_PROFILE,
+  resolveBindingContext,
+  DEFAULT_MACROS,
+  MacroSchema,
+  ClientMessageSchema,
+  DaemonMessageSchema,
+  UiCommandSchema,
+  PROTOCOL_VERSION,
+  applyMergePatch,
+  createMergePatch,
+  type BindingProfile,
+  type BindingResolver,
+  type HardwareBinding,
   type LogiHardwareEvent,
 } from './index';
 
@@ -47,6 +67,91 @@ describe('LogiHardwareEventSchema', () => {
     };
     expect(() => LogiHardwareEventSchema.parse(event)).toThrow();
   });
+
+  it('rejects a component that does not belong to the device', () => {
+    const event = {
+      timestamp: Date.now(),
+      deviceId: 'MX_MASTER_4',
+      componentId: 'DIAL_A',
+      eventType: 'ROTATE',
+      value: 1,
+    };
+    expect(() => LogiHardwareEventSchema.parse(event)).toThrow(/not a component of MX_MASTER_4/);
+  });
+
+  it('rejects an event type the component does not emit', () => {
+    const event = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'PRESS',
+    };
+    expect(() => LogiHardwareEventSchema.parse(event)).toThrow(/does not emit PRESS/);
+  });
+
+  it('rejects a value outside the registered range', () => {
+    const event = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 99,
+    };
+    expect(() => LogiHardwareEventSchema.parse(event)).toThrow(/integer in \[1, 9\]/);
+  });
+
+  it('accepts keypad pages within the registered page count', () => {
+    const event = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 9,
+      page: 3,
+    };
+    expect(() => LogiHardwareEventSchema.parse(event)).not.toThrow();
+    expect(() => LogiHardwareEventSchema.parse({ ...event, page: 16 })).toThrow(/15 page/);
+  });
+
+  it('rejects pages on components without pages', () => {
+    const event = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'ROTATE',
+      value: 1,
+      page: 2,
+    };
+    expect(() => LogiHardwareEventSchema.parse(event)).toThrow(/1 page/);
+  });
+});
+
+describe('DEVICE_REGISTRY', () => {
+  it('describes every component with at least one event type', () => {
+    for (const device of Object.values(DEVICE_REGISTRY)) {
+      for (const component of Object.values(device.components)) {
+        expect(component.events.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('looks up component capabilities by device', () => {
+    expect(getComponentCapabilities('MX_CREATIVE_CONSOLE', 'DIAL_B')?.kind).toBe('dial');
+    expect(getComponentCapabilities('MX_MASTER_4', 'KEYPAD')).toBeUndefined();
+  });
+
+  it('builds manifest devices with keypad keys expanded from the value range', () => {
+    const devices = buildManifestDevices();
+    expect(devices.map((d) => d.id)).toEqual(['MX_MASTER_4', 'MX_CREATIVE_CONSOLE']);
+    const keypad = devices[1]?.components.find((c) => c.id === 'KEYPAD');
+    expect(keypad).toEqual({
+      id: 'KEYPAD',
+      type: 'keypad',
+      keys: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+      pages: 15,
+      events: ['PRESS', 'RELEASE', 'TAP'],
+    });
+  });
 });
 
 describe('SynapseStateSchema', () => {
@@ -79,6 +184,14 @@ describe('SynapseEventSchema', () => {
     };
     expect(() => SynapseEventSchema.parse(event)).not.toThrow();
   });
+
+  it('accepts EXT_ extension actions and rejects other unknown types', () => {
+    const isValid = (type: string): boolean =>
+      SynapseEventSchema.safeParse({ type, timestamp: Date.now() }).success;
+    expect(isValid('EXT_TOGGLE_SCREEN_RECORDING')).toBe(true);
+    expect(isValid('TOGGLE_SCREEN_RECORDING')).toBe(false);
+    expect(isValid('EXT_lowercase')).toBe(false);
+  });
 });
 
 describe('mapHardwareEventToSynapseType', () => {
@@ -135,6 +248,21 @@ describe('mapHardwareEventToSynapseType', () => {
     expect(mapHardwareEventToSynapseType(event)).toBe('SYNAPSE_KEYPAD_CONTEXT_SWITCH');
   });
 
+  it('maps MX_CREATIVE_CONSOLE KEYPAD key 4 to the deep-research macro', () => {
+    const event: LogiHardwareEvent = {
+      timestamp: 1_700_000_000_000,
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 4,
+    };
+    expect(resolveSynapseEvent(event)).toEqual({
+      type: 'SYNAPSE_KEYPAD_MACRO',
+      timestamp: 1_700_000_000_000,
+      payload: { macro: 'deep-research' },
+    });
+  });
+
   it('returns undefined for unrecognized event combinations', () => {
     const event: LogiHardwareEvent = {
       timestamp: Date.now(),
@@ -145,3 +273,646 @@ describe('mapHardwareEventToSynapseType', () => {
     expect(mapHardwareEventToSynapseType(event)).toBeUndefined();
   });
 });
+
+describe('BindingProfileSchema', () => {
+  it('validates the built-in default profile', () => {
+    expect(() => BindingProfileSchema.parse(DEFAULT_BINDING_PROFILE)).not.toThrow();
+  });
+
+  it('rejects a binding targeting an unknown action', () => {
+    const profile = {
+      name: 'broken',
+      bindings: [
+        {
+          deviceId: 'MX_MASTER_4',
+          componentId: 'ACTIONS_RING',
+          eventType: 'PRESS',
+          action: 'SYNAPSE_SELF_DESTRUCT',
+        },
+      ],
+    };
+    expect(() => BindingProfileSchema.parse(profile)).toThrow();
+  });
+});
+
+describe('custom binding profiles', () => {
+  const profile: BindingProfile = {
+    name: 'left-handed',
+    bindings: [
+      {
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'KEYPAD',
+        eventType: 'PRESS',
+        value: 4,
+        action: 'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+        payload: { persona: 'RESEARCHER' },
+      },
+      {
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'DIAL_B',
+        eventType: 'ROTATE',
+        action: 'SYNAPSE_DIAL_COMPUTE_MIX',
+      },
+    ],
+  };
+
+  it('remaps a component to a different action', () => {
+    const event: LogiHardwareEvent = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_B',
+      eventType: 'ROTATE',
+      value: 1,
+    };
+    expect(mapHardwareEventToSynapseType(event, profile)).toBe('SYNAPSE_DIAL_COMPUTE_MIX');
+  });
+
+  it('matches value-specific bindings and forwards their payload', () => {
+    const event: LogiHardwareEvent = {
+      timestamp: 1_700_000_000_000,
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 4,
+    };
+    expect(resolveSynapseEvent(event, profile)).toEqual({
+      type: 'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+      timestamp: 1_700_000_000_000,
+      payload: { persona: 'RESEARCHER' },
+    });
+  });
+
+  it('does not match a value-specific binding for other values', () => {
+    const event: LogiHardwareEvent = {
+      timestamp: Date.now(),
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 1,
+    };
+    expect(resolveSynapseEvent(event, profile)).toBeUndefined();
+  });
+
+  it('ignores bindings from the default profile', () => {
+    const event: LogiHardwareEvent = {
+      timestamp: Date.now(),
+      deviceId: 'MX_MASTER_4',
+      componentId: 'ACTIONS_RING',
+      eventType: 'PRESS',
+    };
+    expect(mapHardwareEventToSynapseType(event, profile)).toBeUndefined();
+  });
+});
+
+describe('keypad pages and macros', () => {
+  const profile = BindingProfileSchema.parse({
+    name: 'paged',
+    bindings: [
+      {
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'KEYPAD',
+        eventType: 'PRESS',
+        value: 1,
+        page: 2,
+        action: 'SYNAPSE_KEYPAD_MACRO',
+        payload: { macro: 'deep-research' },
+      },
+      {
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'KEYPAD',
+        eventType: 'PRESS',
+        action: 'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+      },
+    ],
+  });
+
+  const key1: LogiHardwareEvent = {
+    timestamp: Date.now(),
+    deviceId: 'MX_CREATIVE_CONSOLE',
+    componentId: 'KEYPAD',
+    eventType: 'PRESS',
+    value: 1,
+  };
+
+  it('only matches page-specific bindings on that page', () => {
+    expect(mapHardwareEventToSynapseType({ ...key1, page: 2 }, profile)).toBe(
+      'SYNAPSE_KEYPAD_MACRO',
+    );
+    expect(mapHardwareEventToSynapseType({ ...key1, page: 3 }, profile)).toBe(
+      'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+    );
+  });
+
+  it('treats events without a page as page 1', () => {
+    const pageOne = BindingProfileSchema.parse({
+      name: 'page-one',
+      bindings: [{ ...profile.bindings[0], page: 1 }],
+    });
+    expect(mapHardwareEventToSynapseType(key1, pageOne)).toBe('SYNAPSE_KEYPAD_MACRO');
+  });
+
+  it('validates the default macros', () => {
+    for (const macro of DEFAULT_MACROS) expect(() => MacroSchema.parse(macro)).not.toThrow();
+  });
+
+  it('rejects macros without steps or with invalid names', () => {
+    const step = { action: 'SWITCH_PERSONA', persona: 'CODER' };
+    expect(MacroSchema.safeParse({ name: 'empty', steps: [] }).success).toBe(false);
+    expect(MacroSchema.safeParse({ name: 'Has Spaces', steps: [step] }).success).toBe(false);
+    expect(
+      MacroSchema.safeParse({ name: 'bad-step', steps: [{ action: 'SELF_DESTRUCT' }] }).success,
+    ).toBe(false);
+  });
+});
+
+describe('application binding contexts', () => {
+  const profile = BindingProfileSchema.parse({
+    name: 'per-app',
+    bindings: DEFAULT_BINDING_PROFILE.bindings,
+    contexts: [
+      {
+        name: 'editor',
+        apps: ['Code', 'cursor'],
+        persona: 'CODER',
+        bindings: [
+          {
+            deviceId: 'MX_CREATIVE_CONSOLE',
+            componentId: 'DIAL_A',
+            eventType: 'ROTATE',
+            action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+          },
+        ],
+      },
+      { name: 'browser', apps: ['chrome'], persona: 'NAVIGATOR' },
+    ],
+  });
+
+  const dialA: LogiHardwareEvent = {
+    timestamp: Date.now(),
+    deviceId: 'MX_CREATIVE_CONSOLE',
+    componentId: 'DIAL_A',
+    eventType: 'ROTATE',
+    value: 1,
+  };
+
+  it('resolves the context for an app case-insensitively', () => {
+    expect(resolveBindingContext(profile, 'code')?.name).toBe('editor');
+    expect(resolveBindingContext(profile, 'Chrome')?.persona).toBe('NAVIGATOR');
+    expect(resolveBindingContext(profile, 'slack')).toBeUndefined();
+    expect(resolveBindingContext(profile, null)).toBeUndefined();
+  });
+
+  it('prefers context bindings over the profile bindings', () => {
+    expect(mapHardwareEventToSynapseType(dialA, profile, 'cursor')).toBe(
+      'SYNAPSE_DIAL_CONTEXT_WINDOW',
+    );
+  });
+
+  it('falls back to the profile bindings outside a context or without a match', () => {
+    expect(mapHardwareEventToSynapseType(dialA, profile, 'slack')).toBe('SYNAPSE_DIAL_COMPUTE_MIX');
+    expect(mapHardwareEventToSynapseType(dialA, profile, 'chrome')).toBe(
+      'SYNAPSE_DIAL_COMPUTE_MIX',
+    );
+    expect(mapHardwareEventToSynapseType(dialA, profile)).toBe('SYNAPSE_DIAL_COMPUTE_MIX');
+  });
+
+  it('rejects contexts without apps', () => {
+    expect(
+      BindingProfileSchema.safeParse({
+        name: 'bad',
+        bindings: [],
+        contexts: [{ name: 'empty', apps: [] }],
+      }).success,
+    ).toBe(false);
+  });
+});
+
+describe('wire protocol', () => {
+  it('accepts a HELLO from the plugin', () => {
+    const result = ClientMessageSchema.safeParse({
+      type: 'HELLO',
+      protocolVersion: PROTOCOL_VERSION,
+      role: 'plugin',
+      token: 'secret',
+      features: ['HARDWARE_EVENTS'],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a HELLO with an unknown role or feature', () => {
+    const base = { type: 'HELLO', protocolVersion: PROTOCOL_VERSION, features: [] };
+    expect(ClientMessageSchema.safeParse({ ...base, role: 'admin' }).success).toBe(false);
+    expect(
+      ClientMessageSchema.safeParse({ ...base, role: 'ui', features: ['TELEPATHY'] }).success,
+    ).toBe(false);
+  });
+
+  it('accepts state topics in HELLO and STATE_UPDATEs trimmed to them', () => {
+    const hello = { type: 'HELLO', protocolVersion: PROTOCOL_VERSION, role: 'ui', features: [] };
+    expect(ClientMessageSchema.safeParse({ ...hello, topics: ['KERNEL'] }).success).toBe(true);
+    expect(ClientMessageSchema.safeParse({ ...hello, topics: ['WEATHER'] }).success).toBe(false);
+
+    const kernelOnly = { type: 'STATE_UPDATE', seq: 1, kernelConfig: null, timestamp: 1 };
+    expect(DaemonMessageSchema.safeParse(kernelOnly).success).toBe(true);
+  });
+
+  it('parses rate-limit errors with a retry hint', () => {
+    const error = { type: 'ERROR', code: 'RATE_LIMITED', message: 'slow down', retryAfterMs: 20 };
+    expect(DaemonMessageSchema.safeParse(error).success).toBe(true);
+    expect(DaemonMessageSchema.safeParse({ ...error, retryAfterMs: -1 }).success).toBe(false);
+  });
+
+  it('wraps hardware events in an envelope', () => {
+    const result = ClientMessageSchema.safeParse({
+      type: 'HARDWARE_EVENT',
+      event: { deviceId: 'MX_MASTER_4' },
+    });
+    // The envelope is valid; the event itself is validated separately
+    expect(result.success).toBe(true);
+    expect(ClientMessageSchema.safeParse({ deviceId: 'MX_MASTER_4' }).success).toBe(false);
+  });
+
+  it('accepts foreground application changes', () => {
+    expect(ClientMessageSchema.safeParse({ type: 'APP_CONTEXT', appId: 'code' }).success).toBe(
+      true,
+    );
+    expect(ClientMessageSchema.safeParse({ type: 'APP_CONTEXT', appId: null }).success).toBe(true);
+    expect(ClientMessageSchema.safeParse({ type: 'APP_CONTEXT', appId: '' }).success).toBe(false);
+  });
+
+  it('round-trips clock sync PING and PONG', () => {
+    expect(DaemonMessageSchema.parse({ type: 'PING', id: 1, daemonTime: 1_000.5 }).type).toBe(
+      'PING',
+    );
+    expect(
+      ClientMessageSchema.safeParse({ type: 'PONG', id: 1, daemonTime: 1_000.5, clientTime: 990 })
+        .success,
+    ).toBe(true);
+    expect(ClientMessageSchema.safeParse({ type: 'PONG', id: -1, daemonTime: 1 }).success).toBe(
+      false,
+    );
+  });
+
+  it('wraps UI commands in an envelope and validates them separately', () => {
+    expect(
+      ClientMessageSchema.safeParse({ type: 'COMMAND', id: 'c1', command: { action: 'NOPE' } })
+        .success,
+    ).toBe(true);
+    expect(ClientMessageSchema.safeParse({ type: 'COMMAND', id: '', command: {} }).success).toBe(
+      false,
+    );
+
+    expect(UiCommandSchema.safeParse({ action: 'SET_COMPUTE_MIX', weight: 0.25 }).success).toBe(
+      true,
+    );
+    expect(UiCommandSchema.safeParse({ action: 'FORCE_RELEASE' }).success).toBe(true);
+    expect(UiCommandSchema.safeParse({ action: 'SET_COMPUTE_MIX', weight: 2 }).success).toBe(
+      false,
+    );
+    expect(
+      UiCommandSchema.safeParse({ action: 'SET_CONTEXT_WINDOW', tokens: 128_000 }).success,
+    ).toBe(true);
+    expect(UiCommandSchema.safeParse({ action: 'SET_CONTEXT_WINDOW', tokens: 4_000 }).success).toBe(
+      false,
+    );
+    expect(
+      UiCommandSchema.safeParse({ action: 'SET_CONTEXT_WINDOW', tokens: 200_000 }).success,
+    ).toBe(false);
+    expect(UiCommandSchema.safeParse({ action: 'SWITCH_PERSONA', persona: 'PIRATE' }).success).toBe(
+      false,
+    );
+    expect(
+      DaemonMessageSchema.parse({ type: 'COMMAND_RESULT', id: 'c1', ok: false, error: 'x' }).type,
+    ).toBe('COMMAND_RESULT');
+  });
+
+  it('parses WELCOME and ERROR from the daemon', () => {
+    expect(
+      DaemonMessageSchema.parse({
+        type: 'WELCOME',
+        protocolVersion: PROTOCOL_VERSION,
+        role: 'ui',
+        features: ['STATE_UPDATES'],
+        sessionId: 'abc',
+        timestamp: Date.now(),
+      }).type,
+    ).toBe('WELCOME');
+    expect(
+      DaemonMessageSchema.safeParse({ type: 'ERROR', code: 'NOPE', message: 'x' }).success,
+    ).toBe(false);
+  });
+
+  it('parses DAEMON_SHUTDOWN with a known reason', () => {
+    const shutdown = (reason: string) =>
+      DaemonMessageSchema.safeParse({ type: 'DAEMON_SHUTDOWN', reason, timestamp: Date.now() });
+    expect(shutdown('SIGTERM').success).toBe(true);
+    expect(shutdown('OUT_OF_COFFEE').success).toBe(false);
+  });
+});
+
+describe('state deltas', () => {
+  const before = {
+    machineState: 'CLUTCH_ENGAGED',
+    state: { isClutchEngaged: true, computeMixWeight: 0.5 },
+    osControlState: { owner: 'JAYU_AGENT', handedOffAt: 1_700_000_000_000 },
+    transcription: { transcript: 'open the docs' },
+    appContext: 'code',
+  };
+
+  it('patches only the fields that changed', () => {
+    const after = { ...before, state: { ...before.state, computeMixWeight: 0.55 } };
+    expect(createMergePatch(before, after)).toEqual({ state: { computeMixWeight: 0.55 } });
+    expect(createMergePatch(before, before)).toEqual({});
+  });
+
+  it('removes fields with null and round-trips through applyMergePatch', () => {
+    const after = {
+      machineState: 'IDLE',
+      state: { isClutchEngaged: false, computeMixWeight: 0.5 },
+      osControlState: { owner: 'PHYSICAL_MOUSE', handedOffAt: undefined },
+      transcription: null,
+      appContext: 'code',
+    };
+    const patch = createMergePatch(before, after);
+    expect(patch).toEqual({
+      machineState: 'IDLE',
+      state: { isClutchEngaged: false },
+      osControlState: { owner: 'PHYSICAL_MOUSE', handedOffAt: null },
+      transcription: null,
+    });
+
+    const patched = applyMergePatch(before, patch);
+    expect(patched).toEqual({
+      machineState: 'IDLE',
+      state: { isClutchEngaged: false, computeMixWeight: 0.5 },
+      osControlState: { owner: 'PHYSICAL_MOUSE' },
+      appContext: 'code',
+    });
+    expect(before.osControlState.handedOffAt).toBe(1_700_000_000_000);
+  });
+
+  it('parses STATE_DELTA and RESYNC messages', () => {
+    const delta = { type: 'STATE_DELTA', seq: 4, patch: { appContext: null }, timestamp: 1 };
+    expect(DaemonMessageSchema.safeParse(delta).success).toBe(true);
+    expect(DaemonMessageSchema.safeParse({ ...delta, seq: 0 }).success).toBe(false);
+    expect(ClientMessageSchema.safeParse({ type: 'RESYNC' }).success).toBe(true);
+  });
+});
+
+describe('GestureRecognizer', () => {
+  const keypad = (
+    eventType: LogiHardwareEvent['eventType'],
+    value: number,
+    timestamp: number,
+  ): LogiHardwareEvent => ({
+    timestamp,
+    deviceId: 'MX_CREATIVE_CONSOLE',
+    componentId: 'KEYPAD',
+    eventType,
+    value,
+  });
+
+  it('emits LONG_PRESS when a key is held past the threshold', () => {
+    const recognizer = new GestureRecognizer({ longPressMs: 500 });
+    expect(recognizer.process(keypad('PRESS', 2, 1_000))).toEqual([]);
+    expect(recognizer.process(keypad('RELEASE', 2, 1_600))).toEqual([
+      expect.objectContaining({ eventType: 'LONG_PRESS', componentId: 'KEYPAD', value: 2 }),
+    ]);
+  });
+
+  it('does not emit LONG_PRESS for a short press', () => {
+    const recognizer = new GestureRecognizer({ longPressMs: 500 });
+    recognizer.process(keypad('PRESS', 2, 1_000));
+    expect(recognizer.process(keypad('RELEASE', 2, 1_200))).toEqual([]);
+  });
+
+  it('emits DOUBLE_TAP for two taps within the window', () => {
+    const recognizer = new GestureRecognizer({ doubleTapMs: 300 });
+    expect(recognizer.process(keypad('TAP', 1, 1_000))).toEqual([]);
+    expect(recognizer.process(keypad('TAP', 1, 1_250))).toEqual([
+      expect.objectContaining({ eventType: 'DOUBLE_TAP', value: 1 }),
+    ]);
+    // A third tap starts a new sequence
+    expect(recognizer.process(keypad('TAP', 1, 1_400))).toEqual([]);
+  });
+
+  it('does not emit DOUBLE_TAP for taps outside the window or on different keys', () => {
+    const recognizer = new GestureRecognizer({ doubleTapMs: 300 });
+    recognizer.process(keypad('TAP', 1, 1_000));
+    expect(recognizer.process(keypad('TAP', 2, 1_100))).toEqual([]);
+    expect(recognizer.process(keypad('TAP', 1, 1_500))).toEqual([]);
+  });
+
+  it('treats the same key on different pages as different keys', () => {
+    const recognizer = new GestureRecognizer({ doubleTapMs: 300 });
+    recognizer.process({ ...keypad('TAP', 1, 1_000), page: 1 });
+    expect(recognizer.process({ ...keypad('TAP', 1, 1_100), page: 2 })).toEqual([]);
+    expect(recognizer.process({ ...keypad('TAP', 1, 1_200), page: 2 })).toEqual([
+      expect.objectContaining({ eventType: 'DOUBLE_TAP', value: 1, page: 2 }),
+    ]);
+  });
+
+  it('emits CHORD when a dial is turned while a key is held, suppressing LONG_PRESS', () => {
+    const recognizer = new GestureRecognizer({ longPressMs: 500 });
+    recognizer.process(keypad('PRESS', 3, 1_000));
+    const gestures = recognizer.process({
+      timestamp: 1_100,
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'ROTATE',
+      value: -2,
+    });
+    expect(gestures).toEqual([
+      {
+        timestamp: 1_100,
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'DIAL_A',
+        eventType: 'CHORD',
+        value: -2,
+        modifier: { deviceId: 'MX_CREATIVE_CONSOLE', componentId: 'KEYPAD', value: 3 },
+      },
+    ]);
+    expect(recognizer.process(keypad('RELEASE', 3, 2_000))).toEqual([]);
+  });
+
+  it('emits COMBO with sorted key values when keys are held together', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.process(keypad('PRESS', 4, 1_000));
+    expect(recognizer.process(keypad('PRESS', 1, 1_050))).toEqual([
+      expect.objectContaining({ eventType: 'COMBO', value: '1+4' }),
+    ]);
+  });
+
+  it('forgets held keys on reset', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.process(keypad('PRESS', 3, 1_000));
+    recognizer.reset();
+    expect(
+      recognizer.process({
+        timestamp: 1_100,
+        deviceId: 'MX_CREATIVE_CONSOLE',
+        componentId: 'DIAL_A',
+        eventType: 'ROTATE',
+        value: 1,
+      }),
+    ).toEqual([]);
+  });
+
+  it('produces gestures that chord bindings can target', () => {
+    const profile: BindingProfile = {
+      name: 'chords',
+      bindings: [
+        {
+          deviceId: 'MX_CREATIVE_CONSOLE',
+          componentId: 'DIAL_A',
+          eventType: 'CHORD',
+          modifier: { deviceId: 'MX_CREATIVE_CONSOLE', componentId: 'KEYPAD', value: 1 },
+          action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+        },
+      ],
+    };
+    const recognizer = new GestureRecognizer();
+    recognizer.process(keypad('PRESS', 1, 1_000));
+    const [chord] = recognizer.process({
+      timestamp: 1_100,
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'ROTATE',
+      value: 1,
+    });
+    expect(mapHardwareEventToSynapseType(chord!, profile)).toBe('SYNAPSE_DIAL_CONTEXT_WINDOW');
+
+    const otherChord = { ...chord!, modifier: { ...chord!.modifier!, value: 2 } };
+    expect(mapHardwareEventToSynapseType(otherChord, profile)).toBeUndefined();
+  });
+});
+
+describe('GestureRecognizer.route', () => {
+  const keypad = (
+    eventType: LogiHardwareEvent['eventType'],
+    value: number,
+    timestamp: number,
+  ): LogiHardwareEvent => ({
+    timestamp,
+    deviceId: 'MX_CREATIVE_CONSOLE',
+    componentId: 'KEYPAD',
+    eventType,
+    value,
+  });
+  const dialA = (timestamp: number): LogiHardwareEvent => ({
+    timestamp,
+    deviceId: 'MX_CREATIVE_CONSOLE',
+    componentId: 'DIAL_A',
+    eventType: 'ROTATE',
+    value: 1,
+  });
+  const ring = (eventType: 'PRESS' | 'RELEASE', timestamp: number): LogiHardwareEvent => ({
+    timestamp,
+    deviceId: 'MX_MASTER_4',
+    componentId: 'ACTIONS_RING',
+    eventType,
+  });
+
+  /** The default profile plus `extra`, resolved the way the daemon does */
+  const resolverWith =
+    (...extra: HardwareBinding[]): BindingResolver =>
+    (event) =>
+      resolveBinding(event, {
+        ...DEFAULT_BINDING_PROFILE,
+        bindings: [...extra, ...DEFAULT_BINDING_PROFILE.bindings],
+      });
+  const types = (events: { eventType: string }[]): string[] =>
+    events.map((event) => event.eventType);
+
+  it('dispatches a bound CHORD instead of the raw ROTATE', () => {
+    const resolve = resolverWith({
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'CHORD',
+      action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+    });
+    const recognizer = new GestureRecognizer();
+    expect(types(recognizer.route(keypad('PRESS', 1, 1_000), resolve))).toEqual(['PRESS']);
+    expect(types(recognizer.route(dialA(1_100), resolve))).toEqual(['CHORD']);
+  });
+
+  it('keeps the raw ROTATE when no CHORD binding matches', () => {
+    const recognizer = new GestureRecognizer();
+    const resolve = resolverWith();
+    recognizer.route(keypad('PRESS', 1, 1_000), resolve);
+    expect(types(recognizer.route(dialA(1_100), resolve))).toEqual(['ROTATE', 'CHORD']);
+  });
+
+  it('holds a PRESS back until RELEASE rules out a bound LONG_PRESS', () => {
+    const resolve = resolverWith({
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'LONG_PRESS',
+      value: 2,
+      action: 'SYNAPSE_KEYPAD_MACRO',
+      payload: { macro: 'deep-research' },
+    });
+    const recognizer = new GestureRecognizer({ longPressMs: 500 });
+
+    expect(recognizer.route(keypad('PRESS', 2, 1_000), resolve)).toEqual([]);
+    expect(types(recognizer.route(keypad('RELEASE', 2, 1_600), resolve))).toEqual([
+      'RELEASE',
+      'LONG_PRESS',
+    ]);
+
+    recognizer.route(keypad('PRESS', 2, 2_000), resolve);
+    expect(recognizer.route(keypad('RELEASE', 2, 2_100), resolve)).toEqual([
+      keypad('PRESS', 2, 2_000),
+      keypad('RELEASE', 2, 2_100),
+    ]);
+
+    // Keys without a LONG_PRESS binding are not held back
+    expect(types(recognizer.route(keypad('PRESS', 3, 3_000), resolve))).toEqual(['PRESS']);
+  });
+
+  it('dispatches a bound COMBO instead of the PRESS that completed it', () => {
+    const resolve = resolverWith({
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'COMBO',
+      value: '1+2',
+      action: 'SYNAPSE_KEYPAD_MACRO',
+      payload: { macro: 'deep-research' },
+    });
+    const recognizer = new GestureRecognizer();
+    recognizer.route(keypad('PRESS', 1, 1_000), resolve);
+    expect(types(recognizer.route(keypad('PRESS', 2, 1_050), resolve))).toEqual(['COMBO']);
+  });
+
+  it('leaves the clutch hold out of chords unless a binding names it', () => {
+    const recognizer = new GestureRecognizer();
+    const resolve = resolverWith();
+    expect(types(recognizer.route(ring('PRESS', 1_000), resolve))).toEqual(['PRESS']);
+    expect(types(recognizer.route(dialA(1_100), resolve))).toEqual(['ROTATE']);
+
+    const named = resolverWith({
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'CHORD',
+      modifier: { deviceId: 'MX_MASTER_4', componentId: 'ACTIONS_RING' },
+      action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+    });
+    expect(types(recognizer.route(dialA(1_200), named))).toEqual(['CHORD']);
+  });
+
+  it('never holds back or replaces a clutch event', () => {
+    const resolve = resolverWith({
+      deviceId: 'MX_MASTER_4',
+      componentId: 'ACTIONS_RING',
+      eventType: 'LONG_PRESS',
+      action: 'SYNAPSE_KEYPAD_MACRO',
+      payload: { macro: 'deep-research' },
+    });
+    const recognizer = new GestureRecognizer({ longPressMs: 500 });
+    expect(types(recognizer.route(ring('PRESS', 1_000), resolve))).toEqual(['PRESS']);
+    expect(types(recognizer.route(ring('RELEASE', 1_600), resolve))).toEqual([
+      'RELEASE',
+      'LONG_PRESS',
+    ]);
+  });
+});
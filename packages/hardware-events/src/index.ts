@@ -1,13 +1,91 @@
 import { z } from 'zod';
 
+// ─── Device Registry ─────────────────────────────────────────────────────────
+
+export const HARDWARE_EVENT_TYPES = ['PRESS', 'RELEASE', 'ROTATE', 'TAP'] as const;
+export type HardwareEventType = (typeof HARDWARE_EVENT_TYPES)[number];
+
+export type ComponentKind = 'ring' | 'dial' | 'keypad';
+
+export interface ComponentCapabilities {
+  kind: ComponentKind;
+  events: readonly HardwareEventType[];
+  /**
+   * Inclusive integer range accepted for numeric `value`s:
+   * rotation delta per event for dials, key number for keypads.
+   */
+  valueRange?: { readonly min: number; readonly max: number };
+  /** Keypads only: number of pages the keys can be switched between */
+  pages?: number;
+}
+
+export interface DeviceCapabilities {
+  name: string;
+  components: Readonly<Record<string, ComponentCapabilities>>;
+}
+
+/**
+ * Single source of truth for supported hardware. The event schemas, the
+ * binding schemas and the Options+ plugin manifest are all derived from it,
+ * so supporting a new device only means adding an entry here.
+ */
+export const DEVICE_REGISTRY = {
+  MX_MASTER_4: {
+    name: 'MX Master 4',
+    components: {
+      ACTIONS_RING: { kind: 'ring', events: ['PRESS', 'RELEASE'] },
+    },
+  },
+  MX_CREATIVE_CONSOLE: {
+    name: 'MX Creative Console',
+    components: {
+      DIAL_A: { kind: 'dial', events: ['ROTATE'], valueRange: { min: -100, max: 100 } },
+      DIAL_B: { kind: 'dial', events: ['ROTATE'], valueRange: { min: -100, max: 100 } },
+      KEYPAD: {
+        kind: 'keypad',
+        events: ['PRESS', 'RELEASE', 'TAP'],
+        valueRange: { min: 1, max: 9 },
+        pages: 15,
+      },
+    },
+  },
+} as const satisfies Readonly<Record<string, DeviceCapabilities>>;
+
+type Registry = typeof DEVICE_REGISTRY;
+
+export type DeviceId = keyof Registry;
+export type ComponentId = {
+  [D in DeviceId]: keyof Registry[D]['components'] & string;
+}[DeviceId];
+
+const DEVICE_IDS = Object.keys(DEVICE_REGISTRY) as [DeviceId, ...DeviceId[]];
+const COMPONENT_IDS = [
+  ...new Set(Object.values(DEVICE_REGISTRY).flatMap((device) => Object.keys(device.components))),
+] as [ComponentId, ...ComponentId[]];
+
+/**
+ * Looks up a component on a device.
+ * Returns undefined if the device has no such component.
+ */
+export function getComponentCapabilities(
+  deviceId: DeviceId,
+  componentId: ComponentId,
+): ComponentCapabilities | undefined {
+  const components: Readonly<Record<string, ComponentCapabilities>> =
+    DEVICE_REGISTRY[deviceId].components;
+  return components[componentId];
+}
+
 // ─── Core Hardware Event Interfaces ──────────────────────────────────────────
 
 export interface LogiHardwareEvent {
   timestamp: number;
-  deviceId: 'MX_MASTER_4' | 'MX_CREATIVE_CONSOLE';
-  componentId: 'ACTIONS_RING' | 'DIAL_A' | 'DIAL_B' | 'KEYPAD';
-  eventType: 'PRESS' | 'RELEASE' | 'ROTATE' | 'TAP';
+  deviceId: DeviceId;
+  componentId: ComponentId;
+  eventType: HardwareEventType;
   value?: number | string;
+  /** Keypad page the key was pressed on; absent means page 1 */
+  page?: number;
 }
 
 export interface SynapseState {
@@ -19,13 +97,68 @@ export interface SynapseState {
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-export const LogiHardwareEventSchema = z.object({
-  timestamp: z.number().int().positive(),
-  deviceId: z.enum(['MX_MASTER_4', 'MX_CREATIVE_CONSOLE']),
-  componentId: z.enum(['ACTIONS_RING', 'DIAL_A', 'DIAL_B', 'KEYPAD']),
-  eventType: z.enum(['PRESS', 'RELEASE', 'ROTATE', 'TAP']),
-  value: z.union([z.number(), z.string()]).optional(),
-});
+export const DeviceIdSchema = z.enum(DEVICE_IDS);
+export const ComponentIdSchema = z.enum(COMPONENT_IDS);
+export const HardwareEventTypeSchema = z.enum(HARDWARE_EVENT_TYPES);
+
+/** Rejects components that are not part of the device according to the registry */
+function refineComponentOfDevice(
+  target: { deviceId: DeviceId; componentId: ComponentId },
+  ctx: z.RefinementCtx,
+): ComponentCapabilities | undefined {
+  const component = getComponentCapabilities(target.deviceId, target.componentId);
+  if (!component) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['componentId'],
+      message: `${target.componentId} is not a component of ${target.deviceId}`,
+    });
+  }
+  return component;
+}
+
+export const LogiHardwareEventSchema = z
+  .object({
+    timestamp: z.number().int().positive(),
+    deviceId: DeviceIdSchema,
+    componentId: ComponentIdSchema,
+    eventType: HardwareEventTypeSchema,
+    value: z.union([z.number(), z.string()]).optional(),
+    page: z.number().int().positive().optional(),
+  })
+  .superRefine((event, ctx) => {
+    const component = refineComponentOfDevice(event, ctx);
+    if (!component) return;
+
+    if (!component.events.includes(event.eventType)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['eventType'],
+        message: `${event.componentId} does not emit ${event.eventType}`,
+      });
+    }
+
+    const range = component.valueRange;
+    if (
+      range &&
+      typeof event.value === 'number' &&
+      (!Number.isInteger(event.value) || event.value < range.min || event.value > range.max)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: `${event.componentId} value must be an integer in [${range.min}, ${range.max}]`,
+      });
+    }
+
+    if (event.page !== undefined && event.page > (component.pages ?? 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['page'],
+        message: `${event.componentId} has ${component.pages ?? 1} page(s)`,
+      });
+    }
+  });
 
 export const SynapseStateSchema = z.object({
   isClutchEngaged: z.boolean(),
@@ -42,45 +175,936 @@ export const SynapseEventTypeSchema = z.enum([
   'SYNAPSE_DIAL_COMPUTE_MIX',
   'SYNAPSE_DIAL_CONTEXT_WINDOW',
   'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+  'SYNAPSE_KEYPAD_MACRO',
 ]);
 
 export type SynapseEventType = z.infer<typeof SynapseEventTypeSchema>;
 
+/**
+ * Actions registered by daemon extensions. The `EXT_` prefix keeps them
+ * from ever colliding with a built-in SynapseEventType.
+ */
+export const ExtensionActionTypeSchema = z
+  .string()
+  .regex(/^EXT_[A-Z0-9_]+$/, 'Extension actions must match EXT_[A-Z0-9_]+');
+export type ExtensionActionType = z.infer<typeof ExtensionActionTypeSchema>;
+
+/** Anything a binding can trigger: a built-in action or an extension action */
+export const SynapseActionSchema = z.union([SynapseEventTypeSchema, ExtensionActionTypeSchema]);
+export type SynapseAction = z.infer<typeof SynapseActionSchema>;
+
 export const SynapseEventSchema = z.object({
-  type: SynapseEventTypeSchema,
+  type: SynapseActionSchema,
   timestamp: z.number().int().positive(),
   payload: z.record(z.unknown()).optional(),
 });
 
 export type SynapseEvent = z.infer<typeof SynapseEventSchema>;
 
+// ─── Gestures ────────────────────────────────────────────────────────────────
+
+export const GestureTypeSchema = z.enum(['LONG_PRESS', 'DOUBLE_TAP', 'CHORD', 'COMBO']);
+export type GestureType = z.infer<typeof GestureTypeSchema>;
+
+/** The component held down while another component produced a CHORD */
+export const GestureModifierSchema = z
+  .object({
+    deviceId: DeviceIdSchema,
+    componentId: ComponentIdSchema,
+    value: z.union([z.number(), z.string()]).optional(),
+  })
+  .superRefine(refineComponentOfDevice);
+export type GestureModifier = z.infer<typeof GestureModifierSchema>;
+
+/**
+ * A timing-derived event synthesized by GestureRecognizer from raw hardware events.
+ * - LONG_PRESS: `value` is the held key
+ * - DOUBLE_TAP: `value` is the tapped key
+ * - CHORD: `value` is the rotation delta, `modifier` is the held component
+ * - COMBO: `value` is the held keys joined in ascending order, e.g. `"1+2"`
+ */
+export interface GestureEvent extends Omit<LogiHardwareEvent, 'eventType'> {
+  eventType: GestureType;
+  modifier?: GestureModifier;
+}
+
+/** Anything the binding layer can resolve: a raw hardware event or a gesture */
+export type InputEvent = LogiHardwareEvent | GestureEvent;
+
+export const GestureConfigSchema = z.object({
+  /** Minimum hold duration before RELEASE counts as a long-press */
+  longPressMs: z.number().int().positive(),
+  /** Maximum gap between two presses/taps of the same key for a double-tap */
+  doubleTapMs: z.number().int().positive(),
+});
+export type GestureConfig = z.infer<typeof GestureConfigSchema>;
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  longPressMs: 500,
+  doubleTapMs: 300,
+};
+
+// ─── Binding Profiles ────────────────────────────────────────────────────────
+
+export const HardwareBindingSchema = z
+  .object({
+    deviceId: DeviceIdSchema,
+    componentId: ComponentIdSchema,
+    /** A raw hardware event type or a gesture type */
+    eventType: z.union([HardwareEventTypeSchema, GestureTypeSchema]),
+    /** When set, the binding only matches events carrying exactly this value */
+    value: z.union([z.number(), z.string()]).optional(),
+    /** Keypads only: when set, the binding only matches keys on this page */
+    page: z.number().int().positive().optional(),
+    /** CHORD bindings only: when set, the held component must match */
+    modifier: GestureModifierSchema.optional(),
+    action: SynapseActionSchema,
+    /** Static payload forwarded with the resulting SynapseEvent */
+    payload: z.record(z.unknown()).optional(),
+  })
+  .superRefine(refineComponentOfDevice);
+
+export type HardwareBinding = z.infer<typeof HardwareBindingSchema>;
+
+/**
+ * Bindings and persona that apply while one of `apps` is in the foreground.
+ * App ids are whatever the plugin reports (process name or bundle id) and
+ * are compared case-insensitively.
+ */
+export const BindingContextSchema = z.object({
+  name: z.string().min(1),
+  apps: z.array(z.string().min(1)).min(1),
+  /** Persona the daemon switches to when one of `apps` gains focus */
+  persona: SynapseStateSchema.shape.activeAgentContext.optional(),
+  /** Checked before the profile's own bindings; the first match wins */
+  bindings: z.array(HardwareBindingSchema).default([]),
+});
+
+export type BindingContext = z.infer<typeof BindingContextSchema>;
+
+export const BindingProfileSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** Evaluated in order; the first matching binding wins */
+  bindings: z.array(HardwareBindingSchema),
+  /** Per-application overrides; the first context listing the active app applies */
+  contexts: z.array(BindingContextSchema).optional(),
+  /** Gesture thresholds; unspecified values fall back to DEFAULT_GESTURE_CONFIG */
+  gestures: GestureConfigSchema.partial().optional(),
+});
+
+export type BindingProfile = z.infer<typeof BindingProfileSchema>;
+
+/**
+ * Built-in profile reproducing the stock MX Master 4 / MX Creative Console layout.
+ * Used whenever no custom profile is configured.
+ */
+export const DEFAULT_BINDING_PROFILE: BindingProfile = {
+  name: 'default',
+  description: 'Agent Clutch on MX Master 4, Kernel Mixer on MX Creative Console',
+  bindings: [
+    {
+      deviceId: 'MX_MASTER_4',
+      componentId: 'ACTIONS_RING',
+      eventType: 'PRESS',
+      action: 'SYNAPSE_CLUTCH_ENGAGE',
+    },
+    {
+      deviceId: 'MX_MASTER_4',
+      componentId: 'ACTIONS_RING',
+      eventType: 'RELEASE',
+      action: 'SYNAPSE_CLUTCH_RELEASE',
+    },
+    {
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_A',
+      eventType: 'ROTATE',
+      action: 'SYNAPSE_DIAL_COMPUTE_MIX',
+    },
+    {
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'DIAL_B',
+      eventType: 'ROTATE',
+      action: 'SYNAPSE_DIAL_CONTEXT_WINDOW',
+    },
+    {
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      value: 4,
+      action: 'SYNAPSE_KEYPAD_MACRO',
+      payload: { macro: 'deep-research' },
+    },
+    {
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'PRESS',
+      action: 'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+    },
+    {
+      deviceId: 'MX_CREATIVE_CONSOLE',
+      componentId: 'KEYPAD',
+      eventType: 'TAP',
+      action: 'SYNAPSE_KEYPAD_CONTEXT_SWITCH',
+    },
+  ],
+};
+
+// ─── Keypad Macros ───────────────────────────────────────────────────────────
+
+/** One Synapse action run by a macro */
+export const MacroStepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('SET_COMPUTE_MIX'), weight: z.number().min(0).max(1) }),
+  z.object({
+    action: z.literal('SET_CONTEXT_WINDOW'),
+    /** The kernel mixer's range; out-of-range values are rejected, not clamped */
+    tokens: z.number().int().min(8_000).max(128_000),
+  }),
+  z.object({
+    action: z.literal('SWITCH_PERSONA'),
+    persona: SynapseStateSchema.shape.activeAgentContext,
+  }),
+]);
+export type MacroStep = z.infer<typeof MacroStepSchema>;
+
+/**
+ * A named sequence of Synapse actions, run in order when a binding with
+ * action SYNAPSE_KEYPAD_MACRO and payload `{ "macro": name }` fires.
+ */
+export const MacroSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Macro names are lowercase letters, digits and dashes'),
+  description: z.string().optional(),
+  steps: z.array(MacroStepSchema).min(1),
+});
+export type Macro = z.infer<typeof MacroSchema>;
+
+/** Macros available when none are configured; bound to KEYPAD key 4 by default */
+export const DEFAULT_MACROS: readonly Macro[] = [
+  {
+    name: 'deep-research',
+    description: 'Fully local, 64k context, RESEARCHER persona',
+    steps: [
+      { action: 'SET_COMPUTE_MIX', weight: 0 },
+      { action: 'SET_CONTEXT_WINDOW', tokens: 64_000 },
+      { action: 'SWITCH_PERSONA', persona: 'RESEARCHER' },
+    ],
+  },
+];
+
 // ─── Hardware-to-Synapse mapping helpers ─────────────────────────────────────
 
+/**
+ * Returns the first context in the profile that lists `appId`, if any.
+ */
+export function resolveBindingContext(
+  profile: BindingProfile,
+  appId: string | null | undefined,
+): BindingContext | undefined {
+  if (!appId) return undefined;
+  const app = appId.toLowerCase();
+  return profile.contexts?.find((context) =>
+    context.apps.some((candidate) => candidate.toLowerCase() === app),
+  );
+}
+
+function matchesBinding(binding: HardwareBinding, event: InputEvent): boolean {
+  return (
+    binding.deviceId === event.deviceId &&
+    binding.componentId === event.componentId &&
+    binding.eventType === event.eventType &&
+    (binding.value === undefined || binding.value === event.value) &&
+    (binding.page === undefined || binding.page === (event.page ?? 1)) &&
+    (binding.modifier === undefined || matchesModifier(binding.modifier, event))
+  );
+}
+
+/**
+ * Finds the first binding in the profile matching the event's device,
+ * component, event type and (if the binding specifies them) value and page.
+ * Bindings of the context for `appId` take precedence over the profile's own.
+ */
+export function resolveBinding(
+  event: InputEvent,
+  profile: BindingProfile = DEFAULT_BINDING_PROFILE,
+  appId?: string | null,
+): HardwareBinding | undefined {
+  const context = resolveBindingContext(profile, appId);
+  return (
+    context?.bindings.find((binding) => matchesBinding(binding, event)) ??
+    profile.bindings.find((binding) => matchesBinding(binding, event))
+  );
+}
+
+function matchesModifier(expected: GestureModifier, event: InputEvent): boolean {
+  const actual = 'modifier' in event ? event.modifier : undefined;
+  return (
+    actual !== undefined &&
+    actual.deviceId === expected.deviceId &&
+    actual.componentId === expected.componentId &&
+    (expected.value === undefined || actual.value === expected.value)
+  );
+}
+
+/**
+ * Resolves a raw LogiHardwareEvent into a SynapseEvent using the given profile.
+ * Returns undefined if no binding matches.
+ */
+export function resolveSynapseEvent(
+  event: InputEvent,
+  profile: BindingProfile = DEFAULT_BINDING_PROFILE,
+  appId?: string | null,
+): SynapseEvent | undefined {
+  const binding = resolveBinding(event, profile, appId);
+  if (!binding) return undefined;
+  return {
+    type: binding.action,
+    timestamp: event.timestamp,
+    payload: binding.payload,
+  };
+}
+
 /**
  * Maps a raw LogiHardwareEvent to the appropriate SynapseEvent type.
  * Returns undefined if the event has no mapped Synapse action.
  */
 export function mapHardwareEventToSynapseType(
-  event: LogiHardwareEvent,
-): SynapseEventType | undefined {
-  const { deviceId, componentId, eventType } = event;
+  event: InputEvent,
+  profile: BindingProfile = DEFAULT_BINDING_PROFILE,
+  appId?: string | null,
+): SynapseAction | undefined {
+  return resolveBinding(event, profile, appId)?.action;
+}
+
+// ─── Plugin Manifest Generation ──────────────────────────────────────────────
+
+export interface PluginManifestComponent {
+  id: ComponentId;
+  type: ComponentKind;
+  keys?: number[];
+  pages?: number;
+  events: HardwareEventType[];
+}
+
+export interface PluginManifestDevice {
+  id: DeviceId;
+  name: string;
+  components: PluginManifestComponent[];
+}
+
+/**
+ * Builds the `devices` section of the Options+ plugin manifest from DEVICE_REGISTRY.
+ * Keypads list every key in their value range.
+ */
+export function buildManifestDevices(): PluginManifestDevice[] {
+  return DEVICE_IDS.map((deviceId) => {
+    const device: DeviceCapabilities = DEVICE_REGISTRY[deviceId];
+    return {
+      id: deviceId,
+      name: device.name,
+      components: Object.entries(device.components).map(([componentId, component]) => {
+        const range = component.kind === 'keypad' ? component.valueRange : undefined;
+        return {
+          id: componentId as ComponentId,
+          type: component.kind,
+          ...(range
+            ? { keys: Array.from({ length: range.max - range.min + 1 }, (_, i) => range.min + i) }
+            : {}),
+          ...(component.pages !== undefined ? { pages: component.pages } : {}),
+          events: [...component.events],
+        };
+      }),
+    };
+  });
+}
+
+// ─── Wire Protocol ───────────────────────────────────────────────────────────
+
+/** Version spoken by this build of the daemon and its clients */
+export const PROTOCOL_VERSION = 1;
+/** Oldest version the daemon still accepts */
+export const MIN_PROTOCOL_VERSION = 1;
+
+export const ClientRoleSchema = z.enum(['plugin', 'ui', 'viewer']);
+export type ClientRole = z.infer<typeof ClientRoleSchema>;
+
+/**
+ * Optional capabilities negotiated during the handshake. The daemon grants
+ * the intersection of what the client asks for and what it supports.
+ */
+export const ProtocolFeatureSchema = z.enum([
+  'HARDWARE_EVENTS',
+  'STATE_UPDATES',
+  'APP_CONTEXT',
+  'CLOCK_SYNC',
+  'COMMANDS',
+  'HEARTBEAT',
+  /** With STATE_UPDATES: receive STATE_DELTA patches instead of a full STATE_UPDATE each time */
+  'STATE_DELTAS',
+]);
+export type ProtocolFeature = z.infer<typeof ProtocolFeatureSchema>;
+
+export const ProtocolErrorCodeSchema = z.enum([
+  'INVALID_MESSAGE',
+  'HELLO_REQUIRED',
+  'HANDSHAKE_TIMEOUT',
+  'UNSUPPORTED_PROTOCOL_VERSION',
+  'INVALID_TOKEN',
+  'FORBIDDEN',
+  'INVALID_PAYLOAD',
+  'PROCESSING_FAILED',
+  /** The session's send buffer stayed over its limit; the socket is dropped */
+  'SLOW_CONSUMER',
+  /** A hardware event was over its class's rate limit and dropped */
+  'RATE_LIMITED',
+  /** A hardware event was dropped because too many were already queued */
+  'QUEUE_FULL',
+]);
+export type ProtocolErrorCode = z.infer<typeof ProtocolErrorCodeSchema>;
+
+/**
+ * Parts of the state a STATE_UPDATES session can subscribe to:
+ * - STATE: machine state, SynapseState, OS control, app context and agent runs
+ * - KERNEL: kernel config
+ * - TRANSCRIPTION: the latest voice transcription
+ * - METRICS: latency breakdowns and trace ids
+ */
+export const StateTopicSchema = z.enum(['STATE', 'KERNEL', 'TRANSCRIPTION', 'METRICS']);
+export type StateTopic = z.infer<typeof StateTopicSchema>;
+
+// Client → daemon
+
+export const HelloMessageSchema = z.object({
+  type: z.literal('HELLO'),
+  /** Highest protocol version the client speaks */
+  protocolVersion: z.number().int().positive(),
+  /** Lowest protocol version the client can fall back to */
+  minProtocolVersion: z.number().int().positive().optional(),
+  role: ClientRoleSchema,
+  /** Shared secret (SYNAPSE_WS_TOKEN), required for privileged roles when configured */
+  token: z.string().optional(),
+  features: z.array(ProtocolFeatureSchema),
+  /** State topics to receive with STATE_UPDATES; every topic when omitted */
+  topics: z.array(StateTopicSchema).optional(),
+  clientName: z.string().optional(),
+});
+export type HelloMessage = z.infer<typeof HelloMessageSchema>;
+
+export const HardwareEventMessageSchema = z.object({
+  type: z.literal('HARDWARE_EVENT'),
+  /** Validated separately so a bad event yields INVALID_PAYLOAD rather than INVALID_MESSAGE */
+  event: z.unknown(),
+});
+export type HardwareEventMessage = z.infer<typeof HardwareEventMessageSchema>;
+
+/** Sent by the plugin whenever the foreground application changes */
+export const AppContextMessageSchema = z.object({
+  type: z.literal('APP_CONTEXT'),
+  /** Process name or bundle id; null when no application has focus */
+  appId: z.string().min(1).nullable(),
+  windowTitle: z.string().optional(),
+});
+export type AppContextMessage = z.infer<typeof AppContextMessageSchema>;
+
+/** Reply to a daemon PING, timestamped with the client's clock */
+export const PongMessageSchema = z.object({
+  type: z.literal('PONG'),
+  id: z.number().int().nonnegative(),
+  /** Echoed from the PING */
+  daemonTime: z.number(),
+  /** Client wall-clock time (the clock LogiHardwareEvent.timestamp uses) when the PING arrived */
+  clientTime: z.number(),
+});
+export type PongMessage = z.infer<typeof PongMessageSchema>;
+
+/** Control actions a UI client can run; the same Synapse actions macros use */
+export const UiCommandSchema = z.discriminatedUnion('action', [
+  ...MacroStepSchema.options,
+  /** Releases the clutch and hands OS control back, whatever the hardware says */
+  z.object({ action: z.literal('FORCE_RELEASE') }),
+]);
+export type UiCommand = z.infer<typeof UiCommandSchema>;
+
+/** Sent by UI clients granted COMMANDS; answered with a COMMAND_RESULT carrying the same id */
+export const CommandMessageSchema = z.object({
+  type: z.literal('COMMAND'),
+  /** Client-chosen id correlating the COMMAND_RESULT */
+  id: z.string().min(1).max(64),
+  /** Validated separately so a bad command yields a failed COMMAND_RESULT */
+  command: z.unknown(),
+});
+export type CommandMessage = z.infer<typeof CommandMessageSchema>;
+
+/** Asks for a full STATE_UPDATE, e.g. after a gap in STATE_DELTA sequence numbers */
+export const ResyncMessageSchema = z.object({ type: z.literal('RESYNC') });
+export type ResyncMessage = z.infer<typeof ResyncMessageSchema>;
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  HelloMessageSchema,
+  HardwareEventMessageSchema,
+  AppContextMessageSchema,
+  PongMessageSchema,
+  CommandMessageSchema,
+  ResyncMessageSchema,
+]);
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+// Daemon → client
+
+export const WelcomeMessageSchema = z.object({
+  type: z.literal('WELCOME'),
+  /** Negotiated version both sides use for the rest of the session */
+  protocolVersion: z.number().int().positive(),
+  role: ClientRoleSchema,
+  features: z.array(ProtocolFeatureSchema),
+  /** Subscribed state topics; empty without STATE_UPDATES */
+  topics: z.array(StateTopicSchema).optional(),
+  sessionId: z.string(),
+  timestamp: z.number().int().positive(),
+});
+export type WelcomeMessage = z.infer<typeof WelcomeMessageSchema>;
+
+/** Sent periodically to CLOCK_SYNC and HEARTBEAT sessions; the client answers with PONG */
+export const PingMessageSchema = z.object({
+  type: z.literal('PING'),
+  id: z.number().int().nonnegative(),
+  /** Daemon wall-clock time when the PING was sent */
+  daemonTime: z.number(),
+});
+export type PingMessage = z.infer<typeof PingMessageSchema>;
+
+/**
+ * Where the time between a hardware event and its STATE_UPDATE went.
+ * Transport and end-to-end figures need a clock estimate for the sending
+ * plugin and are null until one exists.
+ */
+export const LatencyBreakdownSchema = z.object({
+  /** Plugin event timestamp → daemon receipt, corrected for clock offset */
+  transportMs: z.number().nullable(),
+  /** Daemon receipt → broadcast, excluding bridge calls */
+  processingMs: z.number().nonnegative(),
+  /** Time spent in the voice pipeline and UI executor bridge */
+  bridgeMs: z.number().nonnegative(),
+  endToEndMs: z.number().nullable(),
+});
+export type LatencyBreakdown = z.infer<typeof LatencyBreakdownSchema>;
+
+export const AgentStageSchema = z.enum([
+  'DISPATCHING',
+  'EXECUTING',
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+]);
+export type AgentStage = z.infer<typeof AgentStageSchema>;
+
+/** Progress of the transcription → kernel → UI bridge pipeline for one utterance */
+export const AgentRunStatusSchema = z.object({
+  runId: z.string(),
+  stage: AgentStageSchema,
+  /** Final transcript the run was started from */
+  instruction: z.string(),
+  /** Model that answered, once the kernel has responded */
+  model: z.string().optional(),
+  /** Steps in the action plan, once it has been built */
+  stepCount: z.number().int().nonnegative().optional(),
+  error: z.string().optional(),
+});
+export type AgentRunStatus = z.infer<typeof AgentRunStatusSchema>;
+
+/** Why the dead-man switch released the clutch */
+export const DeadManReasonSchema = z.enum(['PLUGIN_DISCONNECTED', 'HEARTBEAT_TIMEOUT']);
+export type DeadManReason = z.infer<typeof DeadManReasonSchema>;
+
+/**
+ * Daemon state a client mirrors: sent whole in STATE_UPDATE and patched by
+ * STATE_DELTA. Kernel config, OS control state and transcription are owned
+ * by packages that depend on this one, so they are passed through untyped.
+ */
+export const StateSnapshotSchema = z.object({
+  machineState: z.string().optional(),
+  state: SynapseStateSchema,
+  kernelConfig: z.unknown(),
+  osControlState: z.unknown(),
+  transcription: z.unknown().optional(),
+  /** Foreground application last reported by the plugin */
+  appContext: z.string().nullable().optional(),
+});
+export type StateSnapshot = z.infer<typeof StateSnapshotSchema>;
+
+/** What prompted an update; sent alongside the state, never part of it */
+export const StateUpdateCauseSchema = z.object({
+  synapseType: z.string().optional(),
+  latencyMs: z.number().nonnegative().optional(),
+  latency: LatencyBreakdownSchema.optional(),
+  agentRun: AgentRunStatusSchema.optional(),
+  /** Trace of the hardware event that caused this update, as exported over OTLP */
+  traceId: z.string().regex(/^[0-9a-f]{32}$/).optional(),
+  /** Set on DEAD_MAN_CLUTCH_RELEASE updates */
+  deadManReason: DeadManReasonSchema.optional(),
+  /** Set on WATCHDOG_CLUTCH_RELEASE updates: the expired timeout; CLUTCH_ENGAGED for the hold */
+  timedOutState: z.string().optional(),
+  timestamp: z.number().int().positive(),
+});
+export type StateUpdateCause = z.infer<typeof StateUpdateCauseSchema>;
+
+/** Fields outside the session's topics are left out */
+export const StateUpdateMessageSchema = StateSnapshotSchema.partial()
+  .merge(StateUpdateCauseSchema)
+  .extend({
+    type: z.literal('STATE_UPDATE'),
+    /** Sequence number of this state; the next STATE_DELTA carries seq + 1 */
+    seq: z.number().int().nonnegative(),
+  });
+export type StateUpdateMessage = z.infer<typeof StateUpdateMessageSchema>;
+
+/**
+ * The changes since the previous state, for STATE_DELTAS sessions. A delta
+ * only applies to the state numbered `seq - 1`; on a gap, send RESYNC.
+ */
+export const StateDeltaMessageSchema = StateUpdateCauseSchema.extend({
+  type: z.literal('STATE_DELTA'),
+  seq: z.number().int().positive(),
+  /** JSON Merge Patch (RFC 7396) of the StateSnapshot; null removes a field */
+  patch: z.record(z.unknown()),
+});
+export type StateDeltaMessage = z.infer<typeof StateDeltaMessageSchema>;
+
+export const ErrorMessageSchema = z.object({
+  type: z.literal('ERROR'),
+  code: ProtocolErrorCodeSchema,
+  message: z.string(),
+  /** RATE_LIMITED: how long until the next event of that class is admitted */
+  retryAfterMs: z.number().int().nonnegative().optional(),
+});
+export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+
+export const CommandResultMessageSchema = z.object({
+  type: z.literal('COMMAND_RESULT'),
+  /** Echoed from the COMMAND */
+  id: z.string(),
+  ok: z.boolean(),
+  error: z.string().optional(),
+});
+export type CommandResultMessage = z.infer<typeof CommandResultMessageSchema>;
+
+export const ShutdownReasonSchema = z.enum([
+  'SIGINT',
+  'SIGTERM',
+  'UNCAUGHT_EXCEPTION',
+  'UNHANDLED_REJECTION',
+]);
+export type ShutdownReason = z.infer<typeof ShutdownReasonSchema>;
+
+/** Sent once the clutch has been released, before the daemon closes every socket */
+export const DaemonShutdownMessageSchema = z.object({
+  type: z.literal('DAEMON_SHUTDOWN'),
+  reason: ShutdownReasonSchema,
+  timestamp: z.number().int().positive(),
+});
+export type DaemonShutdownMessage = z.infer<typeof DaemonShutdownMessageSchema>;
+
+export const DaemonMessageSchema = z.discriminatedUnion('type', [
+  WelcomeMessageSchema,
+  StateUpdateMessageSchema,
+  StateDeltaMessageSchema,
+  ErrorMessageSchema,
+  PingMessageSchema,
+  CommandResultMessageSchema,
+  DaemonShutdownMessageSchema,
+]);
+export type DaemonMessage = z.infer<typeof DaemonMessageSchema>;
+
+// ─── State Deltas (JSON Merge Patch) ─────────────────────────────────────────
 
-  if (deviceId === 'MX_MASTER_4' && componentId === 'ACTIONS_RING') {
-    if (eventType === 'PRESS') return 'SYNAPSE_CLUTCH_ENGAGE';
-    if (eventType === 'RELEASE') return 'SYNAPSE_CLUTCH_RELEASE';
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds the RFC 7396 merge patch turning `before` into `after`. Nested
+ * objects are diffed field by field; arrays and other values are replaced
+ * whole. Undefined fields count as absent, so they are removed with null.
+ * Merge patches cannot set a field to null, which only suits state where
+ * null and absent mean the same, like StateSnapshot.
+ */
+export function createMergePatch(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    const previous = before[key];
+    if (isJsonObject(value) && isJsonObject(previous)) {
+      const nested = createMergePatch(previous, value);
+      if (Object.keys(nested).length > 0) patch[key] = nested;
+    } else if (JSON.stringify(value) !== JSON.stringify(previous)) {
+      patch[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(before)) {
+    if (value !== undefined && after[key] === undefined) patch[key] = null;
+  }
+  return patch;
+}
+
+/** Applies an RFC 7396 merge patch, returning a new value and leaving `target` untouched */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isJsonObject(patch)) return patch;
+  const result: Record<string, unknown> = isJsonObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
   }
+  return result;
+}
+
+// ─── Gesture Recognizer ──────────────────────────────────────────────────────
+
+interface HeldComponent {
+  event: LogiHardwareEvent;
+  /** Set once the hold took part in a CHORD or COMBO, suppressing LONG_PRESS */
+  consumed: boolean;
+  /** Set by `route()` when the PRESS waits for its RELEASE to rule out a LONG_PRESS */
+  deferred: boolean;
+}
+
+/** Finds the binding an input event would trigger, e.g. `resolveBinding` with the active profile */
+export type BindingResolver = (event: InputEvent) => HardwareBinding | undefined;
 
-  if (deviceId === 'MX_CREATIVE_CONSOLE') {
-    if (componentId === 'DIAL_A' && eventType === 'ROTATE') {
-      return 'SYNAPSE_DIAL_COMPUTE_MIX';
+function isClutchBinding(binding: HardwareBinding | undefined): boolean {
+  return (
+    binding?.action === 'SYNAPSE_CLUTCH_ENGAGE' || binding?.action === 'SYNAPSE_CLUTCH_RELEASE'
+  );
+}
+
+/** Accepts or rejects `hold` as the modifier of a CHORD about to be emitted */
+type ChordFilter = (chord: GestureEvent, hold: LogiHardwareEvent) => boolean;
+
+function componentKey(
+  event: Pick<LogiHardwareEvent, 'deviceId' | 'componentId' | 'value' | 'page'>,
+): string {
+  return `${event.deviceId}:${event.componentId}:${event.page ?? 1}:${event.value ?? ''}`;
+}
+
+/**
+ * Derives gestures from the timestamps of raw hardware events.
+ *
+ * `process()` is purely additive: it returns the gestures an event completes
+ * and leaves the raw event alone. `route()` also decides what to dispatch, so
+ * a bound gesture takes the place of the raw event it came from instead of
+ * firing alongside it. Clutch bindings are never delayed or swallowed, so the
+ * clutch keeps its latency budget.
+ */
+export class GestureRecognizer {
+  private readonly config: GestureConfig;
+  /** Insertion-ordered so the most recent hold is last */
+  private readonly held = new Map<string, HeldComponent>();
+  private readonly lastTapAt = new Map<string, number>();
+
+  constructor(config?: Partial<GestureConfig>) {
+    this.config = GestureConfigSchema.parse({ ...DEFAULT_GESTURE_CONFIG, ...config });
+  }
+
+  getConfig(): GestureConfig {
+    return { ...this.config };
+  }
+
+  /** Feeds a raw event and returns the gestures it completes (usually none) */
+  process(event: LogiHardwareEvent): GestureEvent[] {
+    return this.recognize(event, () => true);
+  }
+
+  /**
+   * Feeds a raw event and returns the events to dispatch for it, in order:
+   * the raw event unless a bound gesture replaces it, then the gestures.
+   *
+   * - A bound CHORD, COMBO or DOUBLE_TAP replaces the ROTATE, PRESS or TAP
+   *   that completed it.
+   * - A PRESS that could become a bound LONG_PRESS is held back until its
+   *   RELEASE. It is dispatched then, ahead of the RELEASE, unless the hold
+   *   became a LONG_PRESS or took part in a CHORD or COMBO.
+   * - A component held for the clutch only modifies a CHORD whose binding
+   *   names it, so turning a dial while holding the clutch stays a ROTATE.
+   */
+  route(event: LogiHardwareEvent, resolve: BindingResolver): InputEvent[] {
+    const clutch = isClutchBinding(resolve(event));
+    const released = event.eventType === 'RELEASE' ? this.findHold(event)?.[1] : undefined;
+    const gestures = this.recognize(
+      event,
+      (chord, hold) => !isClutchBinding(resolve(hold)) || resolve(chord)?.modifier !== undefined,
+    );
+    const bound = new Set(gestures.filter((gesture) => resolve(gesture) !== undefined));
+    const replaces = (type: GestureType): boolean =>
+      !clutch && [...bound].some((gesture) => gesture.eventType === type);
+
+    let raw: InputEvent[] = [event];
+    switch (event.eventType) {
+      case 'PRESS': {
+        if (replaces('COMBO') || replaces('DOUBLE_TAP')) {
+          raw = [];
+        } else if (!clutch && resolve({ ...event, eventType: 'LONG_PRESS' }) !== undefined) {
+          const hold = this.held.get(componentKey(event));
+          if (hold) hold.deferred = true;
+          raw = [];
+        }
+        break;
+      }
+      case 'RELEASE':
+        if (released?.deferred && !released.consumed && !replaces('LONG_PRESS')) {
+          raw = [released.event, event];
+        }
+        break;
+      case 'ROTATE':
+        if (replaces('CHORD')) raw = [];
+        break;
+      case 'TAP':
+        if (replaces('DOUBLE_TAP')) raw = [];
+        break;
+    }
+    return [...raw, ...gestures];
+  }
+
+  /** Forgets all held components, e.g. when the reporting plugin disconnects */
+  reset(): void {
+    this.held.clear();
+    this.lastTapAt.clear();
+  }
+
+  private recognize(event: LogiHardwareEvent, acceptChord: ChordFilter): GestureEvent[] {
+    switch (event.eventType) {
+      case 'PRESS':
+        return this.handlePress(event);
+      case 'TAP':
+        return this.detectDoubleTap(event);
+      case 'RELEASE':
+        return this.handleRelease(event);
+      case 'ROTATE':
+        return this.handleRotate(event, acceptChord);
+      default:
+        return [];
     }
-    if (componentId === 'DIAL_B' && eventType === 'ROTATE') {
-      return 'SYNAPSE_DIAL_CONTEXT_WINDOW';
+  }
+
+  private handlePress(event: LogiHardwareEvent): GestureEvent[] {
+    const gestures: GestureEvent[] = [];
+    const key = componentKey(event);
+
+    const siblings = [...this.held.entries()].filter(
+      ([heldKey, hold]) =>
+        heldKey !== key &&
+        hold.event.deviceId === event.deviceId &&
+        hold.event.componentId === event.componentId,
+    );
+
+    if (siblings.length > 0) {
+      for (const [, hold] of siblings) hold.consumed = true;
+      const values = [...siblings.map(([, hold]) => hold.event.value), event.value]
+        .filter((v): v is number | string => v !== undefined)
+        .sort((a, b) =>
+          typeof a === 'number' && typeof b === 'number'
+            ? a - b
+            : String(a).localeCompare(String(b)),
+        );
+      gestures.push({
+        timestamp: event.timestamp,
+        deviceId: event.deviceId,
+        componentId: event.componentId,
+        eventType: 'COMBO',
+        value: values.join('+'),
+        page: event.page,
+      });
+    }
+
+    gestures.push(...this.detectDoubleTap(event));
+
+    this.held.delete(key);
+    this.held.set(key, { event, consumed: siblings.length > 0, deferred: false });
+    return gestures;
+  }
+
+  /** The hold a RELEASE ends, keyed as in `held` */
+  private findHold(event: LogiHardwareEvent): [string, HeldComponent] | undefined {
+    let key = componentKey(event);
+    if (!this.held.has(key) && event.value === undefined) {
+      // Some components only report the key number on PRESS
+      const match = [...this.held.keys()]
+        .reverse()
+        .find((heldKey) => heldKey.startsWith(`${event.deviceId}:${event.componentId}:`));
+      if (match) key = match;
     }
-    if (componentId === 'KEYPAD' && (eventType === 'PRESS' || eventType === 'TAP')) {
-      return 'SYNAPSE_KEYPAD_CONTEXT_SWITCH';
+    const hold = this.held.get(key);
+    return hold ? [key, hold] : undefined;
+  }
+
+  private handleRelease(event: LogiHardwareEvent): GestureEvent[] {
+    const found = this.findHold(event);
+    if (!found) return [];
+    const [key, hold] = found;
+    this.held.delete(key);
+
+    if (hold.consumed) return [];
+    if (event.timestamp - hold.event.timestamp < this.config.longPressMs) return [];
+
+    return [
+      {
+        timestamp: event.timestamp,
+        deviceId: hold.event.deviceId,
+        componentId: hold.event.componentId,
+        eventType: 'LONG_PRESS',
+        value: hold.event.value,
+        page: hold.event.page,
+      },
+    ];
+  }
+
+  /** Uses the most recent hold on another component that `acceptChord` allows */
+  private handleRotate(event: LogiHardwareEvent, acceptChord: ChordFilter): GestureEvent[] {
+    const holds = [...this.held.values()].filter(
+      (hold) =>
+        !(hold.event.deviceId === event.deviceId && hold.event.componentId === event.componentId),
+    );
+    for (const hold of holds.reverse()) {
+      const chord: GestureEvent = {
+        timestamp: event.timestamp,
+        deviceId: event.deviceId,
+        componentId: event.componentId,
+        eventType: 'CHORD',
+        value: event.value,
+        modifier: {
+          deviceId: hold.event.deviceId,
+          componentId: hold.event.componentId,
+          value: hold.event.value,
+        },
+      };
+      if (!acceptChord(chord, hold.event)) continue;
+      hold.consumed = true;
+      return [chord];
     }
+    return [];
   }
 
-  return undefined;
+  private detectDoubleTap(event: LogiHardwareEvent): GestureEvent[] {
+    const key = componentKey(event);
+    const previous = this.lastTapAt.get(key);
+
+    if (previous !== undefined && event.timestamp - previous <= this.config.doubleTapMs) {
+      this.lastTapAt.delete(key);
+      return [
+        {
+          timestamp: event.timestamp,
+          deviceId: event.deviceId,
+          componentId: event.componentId,
+          eventType: 'DOUBLE_TAP',
+          value: event.value,
+          page: event.page,
+        },
+      ];
+    }
+
+    this.lastTapAt.set(key, event.timestamp);
+    return [];
+  }
 }
@@ -4,6 +4,11 @@ import {
   dialDeltaToComputeWeight,
   dialDeltaToContextTokens,
   KernelMixConfigSchema,
+  VelocityDial,
+  COMPUTE_MIX_DIAL,
+  CONTEXT_WINDOW_DIAL,
+  dialSpeedMultiplier,
+  mergeDialProfile,
 } from './index';
 
 describe('selectModel', () => {
@@ -50,6 +55,98 @@ describe('dialDeltaToContextTokens', () => {
   });
 });
 
+describe('dialSpeedMultiplier', () => {
+  const acceleration = {
+    curve: 'linear' as const,
+    maxMultiplier: 4,
+    fastIntervalMs: 40,
+    slowIntervalMs: 200,
+  };
+
+  it('applies no acceleration at or below rest speed', () => {
+    expect(dialSpeedMultiplier(acceleration, 200)).toBe(1);
+    expect(dialSpeedMultiplier(acceleration, Number.POSITIVE_INFINITY)).toBe(1);
+  });
+
+  it('applies the full multiplier at or above full speed', () => {
+    expect(dialSpeedMultiplier(acceleration, 40)).toBe(4);
+    expect(dialSpeedMultiplier(acceleration, 0)).toBe(4);
+  });
+
+  it('shapes the ramp according to the curve', () => {
+    expect(dialSpeedMultiplier(acceleration, 120)).toBeCloseTo(2.5, 5);
+    expect(dialSpeedMultiplier({ ...acceleration, curve: 'quadratic' }, 120)).toBeCloseTo(1.75, 5);
+    expect(dialSpeedMultiplier({ ...acceleration, curve: 'none' }, 0)).toBe(1);
+  });
+});
+
+describe('VelocityDial', () => {
+  it('steps 0.05 per slow tick on the compute mix dial', () => {
+    const dial = new VelocityDial(COMPUTE_MIX_DIAL);
+    expect(dial.apply('DIAL_A', 0.2, 1, 1_000)).toBeCloseTo(0.25, 5);
+    expect(dial.apply('DIAL_A', 0.25, 1, 2_000)).toBeCloseTo(0.3, 5);
+  });
+
+  it('accelerates fast consecutive ticks of the same component', () => {
+    const dial = new VelocityDial({ ...COMPUTE_MIX_DIAL, detents: [] });
+    dial.apply('DIAL_A', 0.1, 1, 1_000);
+    expect(dial.apply('DIAL_A', 0.15, 1, 1_020)).toBeCloseTo(0.35, 5);
+  });
+
+  it('tracks speed per component', () => {
+    const dial = new VelocityDial({ ...COMPUTE_MIX_DIAL, detents: [] });
+    dial.apply('DIAL_A', 0.1, 1, 1_000);
+    expect(dial.apply('DIAL_B', 0.1, 1, 1_020)).toBeCloseTo(0.15, 5);
+  });
+
+  it('stops at a detent when crossing it slowly', () => {
+    const dial = new VelocityDial(COMPUTE_MIX_DIAL);
+    expect(dial.apply('DIAL_A', 0.45, 3, 1_000)).toBe(0.5);
+    expect(dial.apply('DIAL_A', 0.55, -3, 2_000)).toBe(0.5);
+  });
+
+  it('passes through detents at full speed', () => {
+    const dial = new VelocityDial(COMPUTE_MIX_DIAL);
+    dial.apply('DIAL_A', 0.4, 1, 1_000);
+    expect(dial.apply('DIAL_A', 0.45, 1, 1_010)).toBeCloseTo(0.65, 5);
+  });
+
+  it('uses finer steps near the low end of a log-scaled context dial', () => {
+    const dial = new VelocityDial({ ...CONTEXT_WINDOW_DIAL, detents: [] });
+    const lowStep = dial.apply('DIAL_B', 8_000, 1, 1_000) - 8_000;
+    const highStep = dial.apply('DIAL_B', 100_000, 1, 2_000) - 100_000;
+    expect(lowStep).toBeGreaterThan(0);
+    expect(highStep).toBeGreaterThan(lowStep * 5);
+  });
+
+  it('sweeps 8k to 128k in a few fast ticks', () => {
+    const dial = new VelocityDial(CONTEXT_WINDOW_DIAL);
+    let tokens = 8_000;
+    for (let i = 0; i < 6; i++) tokens = dial.apply('DIAL_B', tokens, 1, 1_000 + i * 10);
+    expect(tokens).toBe(128_000);
+  });
+
+  it('clamps to the profile range', () => {
+    const dial = new VelocityDial(CONTEXT_WINDOW_DIAL);
+    expect(dial.apply('DIAL_B', 8_000, -5, 1_000)).toBe(8_000);
+    expect(dial.apply('DIAL_B', 128_000, 5, 2_000)).toBe(128_000);
+  });
+});
+
+describe('mergeDialProfile', () => {
+  it('overrides acceleration fields individually', () => {
+    const merged = mergeDialProfile(COMPUTE_MIX_DIAL, { acceleration: { maxMultiplier: 8 } });
+    expect(merged.acceleration.maxMultiplier).toBe(8);
+    expect(merged.acceleration.curve).toBe(COMPUTE_MIX_DIAL.acceleration.curve);
+  });
+
+  it('rejects invalid overrides', () => {
+    expect(() =>
+      mergeDialProfile(COMPUTE_MIX_DIAL, { acceleration: { fastIntervalMs: 500 } }),
+    ).toThrow();
+  });
+});
+
 describe('MockKernelMixer', () => {
   it('initializes with default config', () => {
     const mixer = new MockKernelMixer();
@@ -98,6 +195,21 @@ describe('MockKernelMixer', () => {
     );
   });
 
+  it('answers as the requested persona', async () => {
+    const mixer = new MockKernelMixer();
+    const response = await mixer.dispatch('Open the repo', { persona: 'NAVIGATOR' });
+    expect(response.content).toContain(':NAVIGATOR]');
+  });
+
+  it('rejects an already aborted dispatch', async () => {
+    const mixer = new MockKernelMixer();
+    const controller = new AbortController();
+    controller.abort(new Error('clutch released'));
+    await expect(mixer.dispatch('Open the repo', { signal: controller.signal })).rejects.toThrow(
+      'clutch released',
+    );
+  });
+
   it('validates config schema', () => {
     const valid = {
       computeMixWeight: 0.5,
@@ -39,6 +39,13 @@ export type KernelResponse = z.infer<typeof KernelResponseSchema>;
 
 // ─── KernelMixer ─────────────────────────────────────────────────────────────
 
+export interface KernelDispatchOptions {
+  /** Agent persona the prompt is answered as */
+  persona?: string;
+  /** Aborts the request, e.g. on clutch release */
+  signal?: AbortSignal;
+}
+
 /**
  * Mock interface for @tinywindow/symbios KernelMixer.
  * Routes LLM requests to local or cloud models based on computeMixWeight.
@@ -47,7 +54,7 @@ export interface IKernelMixer {
   setComputeMix(weight: number): void;
   setContextWindow(tokens: number): void;
   getConfig(): KernelMixConfig;
-  dispatch(prompt: string): Promise<KernelResponse>;
+  dispatch(prompt: string, options?: KernelDispatchOptions): Promise<KernelResponse>;
 }
 
 /**
@@ -77,6 +84,174 @@ export function dialDeltaToContextTokens(currentTokens: number, delta: number):
   return Math.min(128_000, Math.max(8_000, currentTokens + delta * step));
 }
 
+// ─── Velocity-Aware Dials ─────────────────────────────────────────────────────
+
+export const DialAccelerationSchema = z.object({
+  /** Shape of the speed → multiplier ramp between slowIntervalMs and fastIntervalMs */
+  curve: z.enum(['none', 'linear', 'quadratic']),
+  /** Step multiplier applied at full speed (1 = no acceleration) */
+  maxMultiplier: z.number().min(1),
+  /** Tick interval at or below which the dial counts as full speed */
+  fastIntervalMs: z.number().nonnegative(),
+  /** Tick interval at or above which no acceleration is applied */
+  slowIntervalMs: z.number().positive(),
+});
+export type DialAcceleration = z.infer<typeof DialAccelerationSchema>;
+
+export const DialProfileSchema = z
+  .object({
+    min: z.number(),
+    max: z.number(),
+    /** Ticks needed to sweep the full range at rest speed */
+    ticksPerRange: z.number().positive(),
+    /** linear: equal steps; log: equal ratios, i.e. finer steps near min */
+    scale: z.enum(['linear', 'log']),
+    acceleration: DialAccelerationSchema,
+    /** Values a slower-than-full-speed turn stops at when crossing them */
+    detents: z.array(z.number()),
+    /** Results are rounded to a multiple of this (0 = no rounding) */
+    resolution: z.number().nonnegative(),
+  })
+  .refine((p) => p.max > p.min, { message: 'max must be greater than min' })
+  .refine((p) => p.scale !== 'log' || p.min > 0, { message: 'log scale requires min > 0' })
+  .refine((p) => p.acceleration.slowIntervalMs > p.acceleration.fastIntervalMs, {
+    message: 'slowIntervalMs must be greater than fastIntervalMs',
+  });
+export type DialProfile = z.infer<typeof DialProfileSchema>;
+
+/** Partial dial profile as read from user configuration */
+export const DialProfileOverrideSchema = z.object({
+  ticksPerRange: z.number().positive().optional(),
+  scale: z.enum(['linear', 'log']).optional(),
+  acceleration: DialAccelerationSchema.partial().optional(),
+  detents: z.array(z.number()).optional(),
+  resolution: z.number().nonnegative().optional(),
+});
+export type DialProfileOverride = z.infer<typeof DialProfileOverrideSchema>;
+
+const DEFAULT_DIAL_ACCELERATION: DialAcceleration = {
+  curve: 'linear',
+  maxMultiplier: 4,
+  fastIntervalMs: 40,
+  slowIntervalMs: 200,
+};
+
+/** DIAL_A: 0.05 per tick at rest, detent at a 50/50 local↔cloud mix */
+export const COMPUTE_MIX_DIAL: DialProfile = {
+  min: 0,
+  max: 1,
+  ticksPerRange: 20,
+  scale: 'linear',
+  acceleration: DEFAULT_DIAL_ACCELERATION,
+  detents: [0.5],
+  resolution: 0.01,
+};
+
+/** DIAL_B: logarithmic 8k–128k so small windows get fine steps, detents at common sizes */
+export const CONTEXT_WINDOW_DIAL: DialProfile = {
+  min: 8_000,
+  max: 128_000,
+  ticksPerRange: 20,
+  scale: 'log',
+  acceleration: DEFAULT_DIAL_ACCELERATION,
+  detents: [16_000, 32_000, 64_000],
+  resolution: 1_000,
+};
+
+/**
+ * Applies a user override on top of a base dial profile.
+ * Range bounds are fixed by the kernel and cannot be overridden.
+ */
+export function mergeDialProfile(base: DialProfile, override?: DialProfileOverride): DialProfile {
+  if (!override) return base;
+  return DialProfileSchema.parse({
+    ...base,
+    ...override,
+    acceleration: { ...base.acceleration, ...override.acceleration },
+  });
+}
+
+/**
+ * Step multiplier for a tick arriving `intervalMs` after the previous one.
+ */
+export function dialSpeedMultiplier(acceleration: DialAcceleration, intervalMs: number): number {
+  const { curve, maxMultiplier, fastIntervalMs, slowIntervalMs } = acceleration;
+  if (curve === 'none') return 1;
+  const speed = Math.min(
+    1,
+    Math.max(0, (slowIntervalMs - intervalMs) / (slowIntervalMs - fastIntervalMs)),
+  );
+  const shaped = curve === 'quadratic' ? speed * speed : speed;
+  return 1 + (maxMultiplier - 1) * shaped;
+}
+
+/**
+ * Velocity-aware dial: converts ROTATE deltas into new values, accelerating
+ * with rotation speed (tracked per component from event timestamps) and
+ * stopping at detents unless the dial is spun at full speed.
+ */
+export class VelocityDial {
+  private readonly lastTickAt = new Map<string, number>();
+
+  constructor(private readonly profile: DialProfile) {}
+
+  getProfile(): DialProfile {
+    return this.profile;
+  }
+
+  /**
+   * @param componentKey identifies the physical dial whose speed is tracked
+   * @param timestamp hardware event timestamp in ms
+   */
+  apply(componentKey: string, current: number, delta: number, timestamp: number): number {
+    const { min, max, ticksPerRange, acceleration } = this.profile;
+
+    const previous = this.lastTickAt.get(componentKey);
+    this.lastTickAt.set(componentKey, timestamp);
+    const intervalMs =
+      previous === undefined ? Number.POSITIVE_INFINITY : Math.max(0, timestamp - previous);
+    const fullSpeed = intervalMs <= acceleration.fastIntervalMs;
+    const multiplier = dialSpeedMultiplier(acceleration, intervalMs);
+
+    const from = Math.min(max, Math.max(min, current));
+    const position = this.toPosition(from) + (delta * multiplier) / ticksPerRange;
+    let next = this.round(this.fromPosition(Math.min(1, Math.max(0, position))));
+
+    if (!fullSpeed) {
+      const crossed = this.profile.detents
+        .filter((d) => (delta > 0 ? d > from && d <= next : d < from && d >= next))
+        .sort((a, b) => (delta > 0 ? a - b : b - a));
+      if (crossed[0] !== undefined) next = crossed[0];
+    }
+
+    return Math.min(max, Math.max(min, next));
+  }
+
+  /** Forgets rotation history so the next tick starts at rest speed */
+  reset(): void {
+    this.lastTickAt.clear();
+  }
+
+  private toPosition(value: number): number {
+    const { min, max, scale } = this.profile;
+    if (scale === 'log') return Math.log(value / min) / Math.log(max / min);
+    return (value - min) / (max - min);
+  }
+
+  private fromPosition(position: number): number {
+    const { min, max, scale } = this.profile;
+    if (scale === 'log') return min * Math.pow(max / min, position);
+    return min + position * (max - min);
+  }
+
+  private round(value: number): number {
+    const { resolution } = this.profile;
+    if (resolution === 0) return value;
+    // toFixed guards against float noise like 0.15000000000000002
+    return Number((Math.round(value / resolution) * resolution).toFixed(10));
+  }
+}
+
 /**
  * Mock KernelMixer implementation for testing and development.
  * Replace with real @tinywindow/symbios integration.
@@ -112,13 +287,15 @@ export class MockKernelMixer implements IKernelMixer {
     return { ...this.config };
   }
 
-  async dispatch(prompt: string): Promise<KernelResponse> {
+  async dispatch(prompt: string, options?: KernelDispatchOptions): Promise<KernelResponse> {
+    options?.signal?.throwIfAborted();
     const start = Date.now();
+    const persona = options?.persona ? `:${options.persona}` : '';
     // Mock response — replace with real @tinywindow/symbios SDK call
     const response: KernelResponse = {
       requestId: crypto.randomUUID(),
       model: this.config.primaryModel,
-      content: `[MOCK:${this.config.primaryModel}] Response to: ${prompt.slice(0, 50)}`,
+      content: `[MOCK:${this.config.primaryModel}${persona}] Response to: ${prompt.slice(0, 50)}`,
       latencyMs: Date.now() - start,
       timestamp: Date.now(),
     };
@@ -3,6 +3,8 @@ import {
   keypadToPersona,
   ClutchEventSchema,
   AgentPersonaSchema,
+  buildActionPlan,
+  type ActionPlan,
   type AgentPersona,
 } from './index';
 
@@ -124,3 +126,62 @@ describe('MockUiExecutorBridge', () => {
     expect(bridge.getControlState().handedOffAt).toBe(ts);
   });
 });
+
+describe('buildActionPlan', () => {
+  const meta = { planId: 'plan-1', persona: 'NAVIGATOR', instruction: 'Open the docs' } as const;
+
+  it('turns a JSON steps object into a plan', () => {
+    const plan = buildActionPlan(
+      JSON.stringify({ steps: [{ kind: 'NAVIGATE', url: 'https://example.com/docs' }] }),
+      meta,
+    );
+    expect(plan).toEqual({ ...meta, steps: [{ kind: 'NAVIGATE', url: 'https://example.com/docs' }] });
+  });
+
+  it('treats plain text as an answer without steps', () => {
+    expect(buildActionPlan('The docs are at example.com', meta).steps).toEqual([]);
+  });
+
+  it('throws on JSON with invalid steps', () => {
+    expect(() =>
+      buildActionPlan(JSON.stringify({ steps: [{ kind: 'FORMAT_DISK' }] }), meta),
+    ).toThrow(/not a valid action plan/);
+  });
+});
+
+describe('MockUiExecutorBridge.execute', () => {
+  const plan: ActionPlan = {
+    planId: 'plan-1',
+    persona: 'CODER',
+    instruction: 'Save the file',
+    steps: [
+      { kind: 'KEY', combo: 'Ctrl+S' },
+      { kind: 'WAIT', ms: 1_000 },
+      { kind: 'TYPE', text: 'done' },
+    ],
+  };
+
+  async function engagedBridge(): Promise<MockUiExecutorBridge> {
+    const bridge = new MockUiExecutorBridge();
+    await bridge.engage({ type: 'ENGAGE', timestamp: Date.now(), agentPersona: 'CODER' });
+    return bridge;
+  }
+
+  it('runs every step while engaged', async () => {
+    const bridge = await engagedBridge();
+    const result = await bridge.execute({ ...plan, steps: [plan.steps[0]!, plan.steps[2]!] });
+    expect(result).toEqual({ planId: 'plan-1', completedSteps: 2 });
+  });
+
+  it('refuses to act without control of the OS', async () => {
+    await expect(new MockUiExecutorBridge().execute(plan)).rejects.toThrow(/not engaged/);
+  });
+
+  it('stops mid-plan when aborted', async () => {
+    const bridge = await engagedBridge();
+    const controller = new AbortController();
+    const execution = bridge.execute(plan, controller.signal);
+    controller.abort(new Error('clutch released'));
+    await expect(execution).rejects.toThrow('clutch released');
+  });
+});
@@ -1,3 +1,4 @@
+import { setTimeout as sleep } from 'timers/promises';
 import { z } from 'zod';
 
 // ─── Agent Persona ────────────────────────────────────────────────────────────
@@ -32,6 +33,56 @@ export const OsControlStateSchema = z.object({
 });
 export type OsControlState = z.infer<typeof OsControlStateSchema>;
 
+// ─── Action Plan ──────────────────────────────────────────────────────────────
+
+export const ActionStepSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('CLICK'), target: z.string().min(1) }),
+  z.object({ kind: z.literal('TYPE'), text: z.string() }),
+  z.object({ kind: z.literal('KEY'), combo: z.string().min(1) }),
+  z.object({ kind: z.literal('NAVIGATE'), url: z.string().url() }),
+  z.object({ kind: z.literal('WAIT'), ms: z.number().int().nonnegative().max(10_000) }),
+]);
+export type ActionStep = z.infer<typeof ActionStepSchema>;
+
+/** Deterministic UI actions derived from one kernel response */
+export const ActionPlanSchema = z.object({
+  planId: z.string().min(1),
+  persona: AgentPersonaSchema,
+  /** Spoken instruction the plan was derived from */
+  instruction: z.string(),
+  steps: z.array(ActionStepSchema),
+});
+export type ActionPlan = z.infer<typeof ActionPlanSchema>;
+
+export interface ActionPlanResult {
+  planId: string;
+  completedSteps: number;
+}
+
+/**
+ * Turns kernel output into an ActionPlan.
+ * Content that is a JSON object with `steps` becomes those steps; any other
+ * content is a plain answer and yields a plan without steps. Throws if the
+ * content is JSON with invalid steps, so a malformed plan is never executed.
+ */
+export function buildActionPlan(
+  content: string,
+  meta: Pick<ActionPlan, 'planId' | 'persona' | 'instruction'>,
+): ActionPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return ActionPlanSchema.parse({ ...meta, steps: [] });
+  }
+
+  const steps = z.object({ steps: z.array(ActionStepSchema) }).safeParse(parsed);
+  if (!steps.success) {
+    throw new Error(`Kernel response is not a valid action plan: ${steps.error.message}`);
+  }
+  return ActionPlanSchema.parse({ ...meta, steps: steps.data.steps });
+}
+
 // ─── UI Executor Bridge Interface ────────────────────────────────────────────
 
 export interface IUiExecutorBridge {
@@ -43,6 +94,11 @@ export interface IUiExecutorBridge {
   release(event: ClutchEvent): Promise<void>;
   /** Switch active agent persona (keypad 1-4) */
   switchPersona(persona: AgentPersona): void;
+  /**
+   * Runs a plan step by step while engaged. Rejects with the signal's reason
+   * as soon as `signal` aborts, leaving the remaining steps unexecuted.
+   */
+  execute(plan: ActionPlan, signal?: AbortSignal): Promise<ActionPlanResult>;
 }
 
 // ─── Mock UiExecutorBridge ────────────────────────────────────────────────────
@@ -91,6 +147,28 @@ export class MockUiExecutorBridge implements IUiExecutorBridge {
     AgentPersonaSchema.parse(persona);
     this.state = { ...this.state, activePersona: persona };
   }
+
+  async execute(plan: ActionPlan, signal?: AbortSignal): Promise<ActionPlanResult> {
+    ActionPlanSchema.parse(plan);
+    let completedSteps = 0;
+    for (const step of plan.steps) {
+      signal?.throwIfAborted();
+      // Re-checked per step: a RELEASE hands the cursor back mid-plan
+      if (this.state.owner !== 'JAYU_AGENT') {
+        throw new Error('UI executor bridge is not engaged');
+      }
+      if (step.kind === 'WAIT') {
+        // timers/promises rejects with a generic AbortError; surface the signal's reason
+        await sleep(step.ms, undefined, { signal }).catch((err: unknown) => {
+          signal?.throwIfAborted();
+          throw err;
+        });
+      }
+      // In real impl: call jayu.perform(step)
+      completedSteps += 1;
+    }
+    return { planId: plan.planId, completedSteps };
+  }
 }
 
 /**
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+/**
+ * Regenerates the `devices` section of the Logi Actions Plugin manifest from
+ * the device registry in @synapse/hardware-events (build that package first).
+ * Pass --check to fail instead of writing when the manifest is out of date.
+ */
+import { readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+const root = join(__dirname, '..');
+const require = createRequire(import.meta.url);
+const { buildManifestDevices } = require(
+  join(root, 'packages', 'hardware-events', 'dist', 'index.js'),
+);
+
+/** JSON.stringify with 2-space indent, keeping arrays of primitives on one line */
+function formatJson(value) {
+  return JSON.stringify(value, null, 2).replace(/\[\s*([^[\]{}]*?)\s*\]/g, (_, items) =>
+    `[${items.split(/,\s*/).join(', ')}]`,
+  );
+}
+
+const manifestPath = join(root, 'apps', 'logi-actions-plugin', 'manifest.json');
+const current = readFileSync(manifestPath, 'utf8');
+const manifest = JSON.parse(current);
+const next = `${formatJson({ ...manifest, devices: buildManifestDevices() })}\n`;
+
+if (process.argv.includes('--check')) {
+  if (next !== current) {
+    console.error('❌ manifest.json is out of date — run pnpm manifest');
+    process.exit(1);
+  }
+  console.log('✅ manifest.json matches the device registry');
+} else {
+  writeFileSync(manifestPath, next);
+  console.log('✅ Wrote apps/logi-actions-plugin/manifest.json from the device registry');
+}
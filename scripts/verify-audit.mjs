@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+/**
+ * Verifies the hash chain of the daemon's audit journal (build the daemon
+ * first). Usage: verify-audit.mjs [path] [--last-hash <hash>]
+ * Defaults to $SYNAPSE_AUDIT_PATH, then <config dir>/audit.jsonl. Pass a
+ * last hash recorded earlier to also detect the tail being cut off.
+ */
+import { createRequire } from 'module';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+const root = join(__dirname, '..');
+const require = createRequire(import.meta.url);
+const daemonDist = join(root, 'apps', 'synapse-core-daemon', 'dist');
+const { verifyAuditJournal } = require(join(daemonDist, 'auditJournal.js'));
+const { resolveConfigDir } = require(join(daemonDist, 'persistence.js'));
+
+const args = process.argv.slice(2);
+const lastHashFlag = args.indexOf('--last-hash');
+const expectedLastHash = lastHashFlag >= 0 ? args[lastHashFlag + 1] : undefined;
+const positional =
+  lastHashFlag >= 0 ? args.filter((_, i) => i !== lastHashFlag && i !== lastHashFlag + 1) : args;
+const path =
+  positional[0] ??
+  process.env.SYNAPSE_AUDIT_PATH ??
+  join(resolveConfigDir(process.env.SYNAPSE_CONFIG_DIR), 'audit.jsonl');
+
+const result = verifyAuditJournal(path);
+if (!result.ok) {
+  console.error(`❌ ${path} was tampered with at line ${result.line}: ${result.reason}`);
+  process.exit(1);
+}
+if (expectedLastHash !== undefined && result.lastHash !== expectedLastHash) {
+  console.error(`❌ ${path} ends at ${result.lastHash}, expected ${expectedLastHash}`);
+  process.exit(1);
+}
+console.log(`✅ ${path}: ${result.entryCount} entries verified, last hash ${result.lastHash}`);